@@ -150,7 +150,7 @@ function getEarlyExitKind({ kind }: ts.Node): string | undefined {
     }
 }
 
-function isLastStatement(ifStatement: ts.IfStatement, statements: ReadonlyArray<ts.Statement>, i: number = statements.length - 1): boolean {
+function isLastStatement(ifStatement: ts.IfStatement, statements: ReadonlyArray<ts.Statement>, i = statements.length - 1): boolean {
     while (true) {
         const statement = statements[i];
         if (statement === ifStatement)
@@ -4,9 +4,6 @@ import * as utils from 'tsutils';
 
 import { AbstractConfigDependentRule } from '../src/rules';
 
-// TODO don't flag inherited members
-// TODO skip all ambient declarations
-
 const enum Format {
     Pascal = 'PascalCase',
     StrictPascal = 'StrictPascalCase',
@@ -14,8 +11,11 @@ const enum Format {
     StrictCamel = 'strictCamelCase',
     Upper = 'UPPER_CASE',
     Snake = 'snake_case',
+    Kebab = 'kebab-case',
 }
 
+const FORMATS: string[] = [Format.Pascal, Format.StrictPascal, Format.Camel, Format.StrictCamel, Format.Upper, Format.Snake, Format.Kebab];
+
 const FORMAT_FAIL   = ' name must be in ';
 const LEADING_FAIL  = ' name must not have leading underscore';
 const TRAILING_FAIL = ' name must not have trailing underscore';
@@ -26,12 +26,18 @@ const PREFIX_FAIL   = ' name must start with ';
 const SUFFIX_FAIL   = ' name must end with ';
 const PREFIX_FAIL_ARR  = ' name must start with one of ';
 const SUFFIX_FAIL_ARR  = ' name must end with one of ';
+const MIN_LENGTH_FAIL  = ' name must have a minimum length of ';
+const MAX_LENGTH_FAIL  = ' name must have a maximum length of ';
+const FORBIDDEN_NAME_FAIL = ' name is forbidden';
+const FORBIDDEN_WORD_FAIL = ' name must not contain the word ';
+const MATCH_EXPORT_FAIL = ' name must match the export ';
 
 type DeclarationWithIdentifierName = ts.Declaration & {name: ts.Identifier};
 
 enum Types {
     // tslint:disable:naming-convention
-    default = -1,
+    // objectLiteralProperty, typeProperty, import, namespaceImport and file are opt-in
+    default = ~(1 << 16 | 1 << 18 | 1 << 19 | 1 << 20 | 1 << 21),
     variable = 1,
     function = 1 << 1,
     parameter = 1 << 2,
@@ -48,6 +54,12 @@ enum Types {
     enumMember = 1 << 13,
     functionVariable = 1 << 14,
     accessor = 1 << 15,
+    objectLiteralProperty = 1 << 16,
+    objectLiteralMethod = 1 << 17,
+    typeProperty = 1 << 18,
+    import = 1 << 19,
+    namespaceImport = 1 << 20,
+    file = 1 << 21,
     // tslint:enable:naming-convention
 }
 
@@ -67,6 +79,12 @@ enum TypeSelector {
     enum = Types.type | Types.enum,
     enumMember = property | Types.enumMember,
     accessor = Types.member | Types.accessor,
+    objectLiteralProperty = Types.objectLiteralProperty,
+    objectLiteralMethod = method | Types.objectLiteralMethod,
+    typeProperty = Types.typeProperty,
+    import = Types.import,
+    namespaceImport = Types.import | Types.namespaceImport,
+    file = Types.file,
     // tslint:enable:naming-convention
 }
 
@@ -82,9 +100,12 @@ enum Modifiers {
     local = 1 << 6,
     abstract = 1 << 7,
     export = 1 << 8,
-    import = 1 << 9,
+    import = 1 << 9, // deprecated, no declaration has this modifier
     rename = 1 << 10,
     unused = 1 << 11,
+    override = 1 << 12,
+    declare = 1 << 13,
+    ambient = Modifiers.declare,
     // tslint:enable:naming-convention
 }
 
@@ -100,26 +121,35 @@ enum Specifity {
     private = Specifity.public,
     abstract = 1 << 3,
     export = 1 << 4,
-    import = 1 << 5,
+    override = 1 << 5,
     rename = 1 << 6,
+    declare = 0, // every configuration that matches an ambient declaration has this modifier
+    ambient = Specifity.declare,
     unused = 1 << 7,
     filter = 1 << 8,
-    default = 1 << 9,
-    variable = 2 << 9,
-    function = 3 << 9,
+    types = 1 << 9,
+    default = 1 << 10,
+    variable = 2 << 10,
+    function = 3 << 10,
     functionVariable = Specifity.function,
-    parameter = 4 << 9,
-    member = 5 << 9,
-    property = 6 << 9,
+    parameter = 4 << 10,
+    member = 5 << 10,
+    property = 6 << 10,
     method = Specifity.property,
-    enumMember = 7 << 9,
+    enumMember = 7 << 10,
     parameterProperty = enumMember,
-    type = 8 << 9,
-    class = 9 << 9,
+    type = 8 << 10,
+    class = 9 << 10,
     interface = Specifity.class,
     typeAlias = Specifity.class,
     genericTypeParameter = Specifity.class,
     enum = Specifity.class,
+    objectLiteralProperty = Specifity.member,
+    objectLiteralMethod = Specifity.enumMember,
+    typeProperty = Specifity.member,
+    import = Specifity.variable,
+    namespaceImport = Specifity.function,
+    file = Specifity.variable,
     // tslint:enable:naming-convention
 }
 
@@ -127,12 +157,17 @@ type IdentifierType = keyof typeof Types;
 type Modifier = keyof typeof Modifiers | 'unused';
 
 type UnderscoreOption = 'allow' | 'require' | 'forbid';
+const UNDERSCORE_OPTIONS: UnderscoreOption[] = ['allow', 'require', 'forbid'];
+
+type AcronymPolicy = 'upper' | 'capitalized' | 'any';
+const ACRONYM_POLICIES: AcronymPolicy[] = ['upper', 'capitalized', 'any'];
 
 interface IRuleScope {
     type: IdentifierType;
     modifiers?: Modifier | Modifier[];
     final?: boolean;
     filter?: string;
+    types?: string | string[];
 }
 
 type RuleConfig = IRuleScope & Partial<IFormat>;
@@ -144,27 +179,120 @@ interface IFormat {
     prefix: string | string[] | undefined;
     suffix: string | string[] | undefined;
     regex: string | undefined;
+    acronyms: string[] | undefined;
+    acronymPolicy: AcronymPolicy | undefined;
+    minLength: number | undefined;
+    maxLength: number | undefined;
+    forbiddenNames: string[] | undefined;
+    forbiddenWords: string[] | undefined;
+    matchExport: boolean | undefined;
+    explain: boolean | undefined;
 }
 
+interface IAcronyms {
+    words: Set<string>;
+    policy: AcronymPolicy;
+}
+
+const OPTIONS_SCHEMA = createOptionsSchema();
+
 export class Rule extends AbstractConfigDependentRule {
+    public static metadata: Lint.IRuleMetadata = {
+        ruleName: 'naming-convention',
+        description: 'Enforces consistent naming of declarations.',
+        optionsDescription: 'A list of configurations, see docs/naming-convention.md',
+        options: OPTIONS_SCHEMA,
+        optionExamples: [[true, {type: 'default', format: 'camelCase'}, {type: 'type', format: 'PascalCase'}]],
+        hasFix: true,
+        type: 'style',
+        typescriptOnly: false,
+    };
+
+    private _configs: NormalizedConfig[];
+
+    constructor(options: Lint.IOptions) {
+        super(options);
+        // validate all configs upfront, otherwise typos would silently disable checks
+        this._configs = this.ruleArguments.map((rule, index) => new NormalizedConfig(rule, index)).sort(NormalizedConfig.sort);
+    }
+
     public apply(sourceFile: ts.SourceFile): Lint.RuleFailure[] {
-        return this.applyWithWalker(new IdentifierNameWalker(
-            sourceFile,
-            this.ruleName,
-            this.ruleArguments.map((rule) => new NormalizedConfig(rule)).sort(NormalizedConfig.sort),
-        ));
+        return this.applyWithWalker(new IdentifierNameWalker(sourceFile, this.ruleName, this._configs, undefined));
+    }
+
+    // type information is always used when available: configs with 'types' and the 'override' modifier depend on it,
+    // and overriding members of declaration files are never checked
+    public applyWithProgram(sourceFile: ts.SourceFile, program: ts.Program): Lint.RuleFailure[] {
+        return this.applyWithWalker(new IdentifierNameWalker(sourceFile, this.ruleName, this._configs, program.getTypeChecker()));
+    }
+}
+
+/** Describes how the config of a name was resolved, e.g. ` (selector: variable, modifiers: [const, global], configs: [0, 3])`. */
+function explain(type: TypeSelector, modifiers: number, contributing: number[]): string {
+    const modifierNames: string[] = [];
+    let seen = 0;
+    for (const name of getEnumNames(Modifiers)) {
+        const flag = Modifiers[<keyof typeof Modifiers>name];
+        if (modifiers & flag & ~seen) // aliases come after the original name and are skipped
+            modifierNames.push(name);
+        seen |= flag;
     }
+    return ` (selector: ${TypeSelector[type]}, modifiers: [${modifierNames.join(', ')}], configs: [${contributing.join(', ')}])`;
+}
+
+function createOptionsSchema() {
+    const stringOrArray = (items: object) => ({anyOf: [items, {items, type: 'array'}]});
+    const disabled = {anyOf: [{type: 'null'}, {enum: [false, '', 0]}]};
+    const optional = (schema: object) => ({anyOf: [schema, disabled]});
+    return {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                type: {enum: getEnumNames(Types)},
+                modifiers: stringOrArray({enum: getEnumNames(Modifiers)}),
+                final: {type: 'boolean'},
+                filter: {type: 'string'},
+                types: stringOrArray({type: 'string'}),
+                format: optional(stringOrArray({enum: FORMATS})),
+                leadingUnderscore: optional({enum: UNDERSCORE_OPTIONS}),
+                trailingUnderscore: optional({enum: UNDERSCORE_OPTIONS}),
+                prefix: optional(stringOrArray({type: 'string'})),
+                suffix: optional(stringOrArray({type: 'string'})),
+                regex: optional({type: 'string'}),
+                acronyms: optional({type: 'array', items: {type: 'string'}}),
+                acronymPolicy: optional({enum: ACRONYM_POLICIES}),
+                minLength: optional({type: 'integer', minimum: 0}),
+                maxLength: optional({type: 'integer', minimum: 0}),
+                forbiddenNames: optional({type: 'array', items: {type: 'string'}}),
+                forbiddenWords: optional({type: 'array', items: {type: 'string'}}),
+                matchExport: {type: 'boolean'},
+                explain: {type: 'boolean'},
+            },
+            required: ['type'],
+            additionalProperties: false,
+        },
+    };
+}
+
+/** Returns the member names of a numeric enum without the reverse mappings. */
+function getEnumNames(e: object): string[] {
+    return Object.keys(e).filter((key) => Number.isNaN(Number(key)));
 }
 
 class NormalizedConfig {
     private _type: Types;
     private _filter: RegExp | undefined;
+    private _types: string[] | undefined;
     private _format: Partial<IFormat>;
     private _modifiers: number;
     private _specifity: number;
     private _final: boolean;
+    private _index: number;
 
-    constructor(raw: RuleConfig) {
+    constructor(raw: RuleConfig, index: number) {
+        validateConfig(raw, index);
+        this._index = index;
         this._type = Types[raw.type];
         this._final = !!raw.final;
         this._specifity = Specifity[raw.type];
@@ -186,28 +314,124 @@ class NormalizedConfig {
         } else {
             this._filter = undefined;
         }
+        if (raw.types !== undefined) {
+            this._types = Array.isArray(raw.types) ? raw.types : [raw.types];
+            this._specifity |= Specifity.types;
+        } else {
+            this._types = undefined;
+        }
         this._format = raw;
     }
 
-    public matches(type: TypeSelector, modifiers: number, name: string): boolean {
+    public matches(
+        type: TypeSelector,
+        modifiers: number,
+        name: string,
+        node: ts.Identifier | undefined,
+        checker: ts.TypeChecker | undefined,
+    ): boolean {
         if (this._final && type > this._type << 1) // check if TypeSelector has a higher bit set than this._type
             return false;
         if ((this._type & type) === 0 || (this._modifiers & ~modifiers) !== 0)
             return false;
-        if (this._filter === undefined)
+        // ambient declarations are only checked by configurations that explicitly target them
+        if (modifiers & Modifiers.declare && (this._modifiers & Modifiers.declare) === 0)
+            return false;
+        if (this._filter !== undefined && !this._filter.test(name))
+            return false;
+        if (this._types === undefined)
             return true;
-        return this._filter.test(name);
+        return checker !== undefined && node !== undefined && matchesAnyType(checker.getTypeAtLocation(node), this._types, node, checker);
     }
 
     public getFormat() {
         return this._format;
     }
 
+    public getIndex() {
+        return this._index;
+    }
+
     public static sort(first: NormalizedConfig, second: NormalizedConfig): number {
         return first._specifity - second._specifity;
     }
 }
 
+function validateConfig(raw: RuleConfig, index: number) {
+    if (typeof raw !== 'object' || raw === null) // tslint:disable-line:no-null-keyword
+        throw invalidConfig(index, 'expected an object');
+    for (const key of Object.keys(raw))
+        if (!OPTIONS_SCHEMA.items.properties.hasOwnProperty(key))
+            throw invalidConfig(index, `unknown option '${key}'`);
+    if (!isEnumName(Types, raw.type))
+        throw invalidConfig(index, `unknown type '${raw.type}'`);
+    if (raw.modifiers !== undefined) {
+        if (!isStringOrStringArray(raw.modifiers))
+            throw invalidConfig(index, `'modifiers' must be a string or an array of strings`);
+        for (const modifier of Array.isArray(raw.modifiers) ? raw.modifiers : [raw.modifiers])
+            if (!isEnumName(Modifiers, modifier))
+                throw invalidConfig(index, `unknown modifier '${modifier}'`);
+    }
+    for (const option of <Array<'final' | 'matchExport' | 'explain'>>['final', 'matchExport', 'explain'])
+        if (raw[option] !== undefined && typeof raw[option] !== 'boolean')
+            throw invalidConfig(index, `'${option}' must be a boolean`);
+    if (raw.filter !== undefined && typeof raw.filter !== 'string')
+        throw invalidConfig(index, `'filter' must be a string`);
+    if (raw.types !== undefined && !isStringOrStringArray(raw.types))
+        throw invalidConfig(index, `'types' must be a string or an array of strings`);
+    // the formatting options are disabled by falsy values
+    for (const option of <Array<'format' | 'prefix' | 'suffix'>>['format', 'prefix', 'suffix'])
+        if (raw[option] && !isStringOrStringArray(raw[option]))
+            throw invalidConfig(index, `'${option}' must be a string or an array of strings`);
+    if (raw.regex && typeof raw.regex !== 'string')
+        throw invalidConfig(index, `'regex' must be a string`);
+    for (const option of <Array<'acronyms' | 'forbiddenNames' | 'forbiddenWords'>>['acronyms', 'forbiddenNames', 'forbiddenWords'])
+        if (raw[option] && !isStringArray(raw[option]))
+            throw invalidConfig(index, `'${option}' must be an array of strings`);
+    for (const option of <Array<'minLength' | 'maxLength'>>['minLength', 'maxLength']) {
+        const value = raw[option];
+        if (value && (typeof value !== 'number' || value < 0 || value % 1 !== 0))
+            throw invalidConfig(index, `'${option}' must be a non-negative integer`);
+    }
+    if (raw.format)
+        for (const format of Array.isArray(raw.format) ? raw.format : [raw.format])
+            if (FORMATS.indexOf(format) === -1)
+                throw invalidConfig(index, `unknown format '${format}'`);
+    for (const option of <Array<'leadingUnderscore' | 'trailingUnderscore'>>['leadingUnderscore', 'trailingUnderscore']) {
+        const value = raw[option];
+        if (value && UNDERSCORE_OPTIONS.indexOf(value) === -1)
+            throw invalidConfig(index, `unknown option '${value}' for '${option}'`);
+    }
+    if (raw.acronymPolicy && ACRONYM_POLICIES.indexOf(raw.acronymPolicy) === -1)
+        throw invalidConfig(index, `unknown acronym policy '${raw.acronymPolicy}'`);
+    for (const option of <Array<'regex' | 'filter'>>['regex', 'filter']) {
+        const value = raw[option];
+        if (value) {
+            try {
+                RegExp(value);
+            } catch (e) {
+                throw invalidConfig(index, `invalid ${option} '${value}': ${(<Error>e).message}`);
+            }
+        }
+    }
+}
+
+function invalidConfig(index: number, message: string) {
+    return new Error(`Invalid configuration for rule 'naming-convention' at index ${index}: ${message}`);
+}
+
+function isEnumName(e: object, name: string) {
+    return typeof name === 'string' && Number.isNaN(Number(name)) && Object.prototype.hasOwnProperty.call(e, name);
+}
+
+function isStringArray(value: unknown): boolean {
+    return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isStringOrStringArray(value: unknown): boolean {
+    return typeof value === 'string' || isStringArray(value);
+}
+
 class NameChecker {
     private _format: Format | Format[] | undefined;
     private _leadingUnderscore: UnderscoreOption | undefined;
@@ -215,102 +439,274 @@ class NameChecker {
     private _prefix: string | string[] | undefined;
     private _suffix: string | string[] | undefined;
     private _regex: RegExp | undefined;
-    constructor(private readonly _type: TypeSelector, format: IFormat) {
+    private _acronyms: IAcronyms | undefined;
+    private _minLength: number | undefined;
+    private _maxLength: number | undefined;
+    private _forbiddenNames: Set<string> | undefined;
+    private _forbiddenWords: Set<string> | undefined;
+    private _matchExport: boolean;
+    private _explanation: string;
+    constructor(private readonly _type: TypeSelector, format: IFormat, explanation: string) {
+        this._explanation = explanation;
         this._leadingUnderscore = format.leadingUnderscore;
         this._trailingUnderscore = format.trailingUnderscore;
         this._format = parseOptionArray<Format>(format.format);
         this._prefix = parseOptionArray(format.prefix);
         this._suffix = parseOptionArray(format.suffix);
         this._regex = format.regex ? new RegExp(format.regex) : undefined;
+        this._acronyms = format.acronyms && format.acronyms.length !== 0
+            ? {words: new Set(format.acronyms.map((acronym) => acronym.toUpperCase())), policy: format.acronymPolicy || 'any'}
+            : undefined;
+        this._minLength = format.minLength || undefined;
+        this._maxLength = format.maxLength || undefined;
+        this._forbiddenNames = format.forbiddenNames && format.forbiddenNames.length !== 0
+            ? new Set(format.forbiddenNames.map((forbidden) => forbidden.toLowerCase()))
+            : undefined;
+        this._forbiddenWords = format.forbiddenWords && format.forbiddenWords.length !== 0
+            ? new Set(format.forbiddenWords.map((forbidden) => forbidden.toLowerCase()))
+            : undefined;
+        this._matchExport = !!format.matchExport;
     }
 
     private _failMessage(message: string): string {
-        return TypeSelector[this._type] + message;
+        return TypeSelector[this._type] + message + this._explanation;
     }
 
-    public check(name: ts.Identifier, walker: Lint.AbstractWalker<any>) {
-        let identifier = name.text;
+    public check(name: ts.Identifier, walker: IdentifierNameWalker, exemptFromMinLength: boolean) {
+        let hasFailure = false;
+        this._checkText(name.text, exemptFromMinLength, (message) => {
+            // only the first failure of a name carries the fix, otherwise the replacements would overlap
+            walker.addFailureAtNode(name, this._failMessage(message), hasFailure ? undefined : this._getFix(name, walker));
+            hasFailure = true;
+        });
+    }
+
+    /** Checks the base name of a file. Failures are reported at the start of the file and have no fix. */
+    public checkFileName(sourceFile: ts.SourceFile, baseName: string, walker: IdentifierNameWalker) {
+        const fail = (message: string) => walker.addFailureAt(0, 0, this._failMessage(message));
+        this._checkText(baseName, false, fail);
+        if (!this._matchExport)
+            return;
+        const exportName = getMainExportName(sourceFile);
+        if (exportName === undefined)
+            return;
+        const expected = this._getFileNamesForExport(exportName);
+        if (expected.indexOf(baseName) === -1)
+            fail(`${MATCH_EXPORT_FAIL}${exportName}: '${expected[0]}'`);
+    }
+
+    private _getFileNamesForExport(exportName: string): string[] {
+        if (!this._format || Array.isArray(this._format) && this._format.length === 0)
+            return [exportName];
+        return (Array.isArray(this._format) ? this._format : [this._format]).map(
+            (format) => matchesFormat(exportName, format, this._acronyms) ? exportName : convertFormat(exportName, format, this._acronyms),
+        );
+    }
+
+    private _checkText(text: string, exemptFromMinLength: boolean, fail: (message: string) => void) {
+        let identifier = text;
 
         // start with regex test before we potentially strip off underscores and affixes
         if (this._regex !== undefined && !this._regex.test(identifier))
-            walker.addFailureAtNode(name, this._failMessage(REGEX_FAIL));
+            fail(REGEX_FAIL);
+
+        // length and vocabulary are checked on the whole name
+        if (this._minLength !== undefined && identifier.length < this._minLength && !exemptFromMinLength)
+            fail(MIN_LENGTH_FAIL + this._minLength);
+        if (this._maxLength !== undefined && identifier.length > this._maxLength)
+            fail(MAX_LENGTH_FAIL + this._maxLength);
+        if (this._forbiddenNames !== undefined && this._forbiddenNames.has(identifier.toLowerCase()))
+            fail(FORBIDDEN_NAME_FAIL);
+        if (this._forbiddenWords !== undefined)
+            for (const word of this._getForbiddenWords(identifier))
+                fail(FORBIDDEN_WORD_FAIL + word);
 
         if (this._leadingUnderscore) {
             if (identifier[0] === '_') {
                 if (this._leadingUnderscore === 'forbid')
-                    walker.addFailureAtNode(name, this._failMessage(LEADING_FAIL));
+                    fail(LEADING_FAIL);
                 identifier = identifier.slice(1);
             } else if (this._leadingUnderscore === 'require') {
-                walker.addFailureAtNode(name, this._failMessage(NO_LEADING_FAIL));
+                fail(NO_LEADING_FAIL);
             }
         }
 
         if (this._trailingUnderscore) {
             if (identifier[identifier.length - 1] === '_') {
                 if (this._trailingUnderscore === 'forbid')
-                    walker.addFailureAtNode(name, this._failMessage(TRAILING_FAIL));
+                    fail(TRAILING_FAIL);
                 identifier = identifier.slice(0, -1);
             } else if (this._trailingUnderscore === 'require') {
-                walker.addFailureAtNode(name, this._failMessage(NO_TRAILING_FAIL));
+                fail(NO_TRAILING_FAIL);
             }
         }
 
         if (this._prefix) {
             if (Array.isArray(this._prefix)) {
-                identifier = this._checkPrefixes(identifier, name, this._prefix, walker);
+                identifier = checkPrefixes(identifier, this._prefix, fail);
             } else if (identifier.startsWith(this._prefix)) {
                 identifier = identifier.slice(this._prefix.length);
             } else {
-                walker.addFailureAtNode(name, this._failMessage(PREFIX_FAIL + this._prefix));
+                fail(PREFIX_FAIL + this._prefix);
             }
         }
         if (this._suffix) {
             if (Array.isArray(this._suffix)) {
-                identifier = this._checkSuffixes(identifier, name, this._suffix, walker);
+                identifier = checkSuffixes(identifier, this._suffix, fail);
             } else if (identifier.endsWith(this._suffix)) {
                 identifier = identifier.slice(0, -this._suffix.length);
             } else {
-                walker.addFailureAtNode(name, this._failMessage(SUFFIX_FAIL + this._suffix));
+                fail(SUFFIX_FAIL + this._suffix);
             }
         }
 
         // case checks
         if (this._format) {
             if (Array.isArray(this._format)) {
-                if (!matchesAnyFormat(identifier, this._format))
-                    walker.addFailureAtNode(name, this._failMessage(FORMAT_FAIL + formatFormatList(this._format)));
-            } else if (!matchesFormat(identifier, this._format)) {
-                walker.addFailureAtNode(name, this._failMessage(FORMAT_FAIL + this._format));
+                if (!matchesAnyFormat(identifier, this._format, this._acronyms))
+                    fail(FORMAT_FAIL + formatFormatList(this._format) + this._getSuggestion(text));
+            } else if (!matchesFormat(identifier, this._format, this._acronyms)) {
+                fail(FORMAT_FAIL + this._format + this._getSuggestion(text));
             }
         }
     }
 
-    private _checkPrefixes(identifier: string, name: ts.Identifier, prefixes: string[], walker: Lint.AbstractWalker<any>): string {
-        for (const prefix of prefixes)
-            if (identifier.startsWith(prefix))
-                return identifier.slice(prefix.length);
-        walker.addFailureAtNode(name, this._failMessage(PREFIX_FAIL_ARR + prefixes.toString()));
-        return identifier;
+    private _getForbiddenWords(name: string): string[] {
+        return splitWords(name).filter((word) => this._forbiddenWords!.has(stripDigits(word).toLowerCase()));
     }
 
-    private _checkSuffixes(identifier: string, name: ts.Identifier, suffixes: string[], walker: Lint.AbstractWalker<any>): string {
-        for (const suffix of suffixes)
-            if (identifier.endsWith(suffix))
-                return identifier.slice(0, -suffix.length);
-        walker.addFailureAtNode(name, this._failMessage(SUFFIX_FAIL_ARR + suffixes.toString()));
-        return identifier;
+    /** Suggests the corrected spelling if acronyms are configured, because the expected casing of acronyms is not obvious. */
+    private _getSuggestion(name: string): string {
+        if (this._acronyms === undefined)
+            return '';
+        const newName = this._fixName(name);
+        return newName === undefined ? '' : `, did you mean '${newName}'?`;
+    }
+
+    private _getFix(name: ts.Identifier, walker: IdentifierNameWalker): Lint.Replacement[] | undefined {
+        const newName = this._fixName(name.text);
+        return newName === undefined ? undefined : walker.getRenameFix(name, newName);
     }
 
+    /** Computes a name that satisfies all formatting rules, returns undefined if there is no such name. */
+    private _fixName(name: string): string | undefined {
+        let identifier = name;
+        let leading = '';
+        let trailing = '';
+        if (this._leadingUnderscore && (identifier[0] === '_' || this._leadingUnderscore === 'require')) {
+            if (identifier[0] === '_')
+                identifier = identifier.slice(1);
+            if (this._leadingUnderscore !== 'forbid')
+                leading = '_';
+        }
+        if (this._trailingUnderscore && (identifier[identifier.length - 1] === '_' || this._trailingUnderscore === 'require')) {
+            if (identifier[identifier.length - 1] === '_')
+                identifier = identifier.slice(0, -1);
+            if (this._trailingUnderscore !== 'forbid')
+                trailing = '_';
+        }
+
+        let prefix = '';
+        if (this._prefix) {
+            const prefixes = Array.isArray(this._prefix) ? this._prefix : [this._prefix];
+            prefix = prefixes.find((p) => identifier.startsWith(p)) || prefixes[0];
+            if (identifier.startsWith(prefix))
+                identifier = identifier.slice(prefix.length);
+        }
+        let suffix = '';
+        if (this._suffix) {
+            const suffixes = Array.isArray(this._suffix) ? this._suffix : [this._suffix];
+            suffix = suffixes.find((s) => identifier.endsWith(s)) || suffixes[0];
+            if (identifier.endsWith(suffix))
+                identifier = identifier.slice(0, -suffix.length);
+        }
+
+        if (this._format) {
+            if (Array.isArray(this._format)) {
+                if (!matchesAnyFormat(identifier, this._format, this._acronyms))
+                    identifier = convertFormat(identifier, this._format[0], this._acronyms);
+            } else if (!matchesFormat(identifier, this._format, this._acronyms)) {
+                identifier = convertFormat(identifier, this._format, this._acronyms);
+            }
+        }
+
+        const result = leading + prefix + identifier + suffix + trailing;
+        if (result === name || !utils.isValidIdentifier(result) || this._regex !== undefined && !this._regex.test(result) ||
+            // length and vocabulary cannot be fixed by reformatting the name
+            this._minLength !== undefined && result.length < this._minLength ||
+            this._maxLength !== undefined && result.length > this._maxLength ||
+            this._forbiddenNames !== undefined && this._forbiddenNames.has(result.toLowerCase()) ||
+            this._forbiddenWords !== undefined && this._getForbiddenWords(result).length !== 0)
+            return;
+        return result;
+    }
 }
 
 class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
     private _depth = 0;
+    private _ambient = false;
     private _usage: Map<ts.Identifier, utils.VariableInfo> | undefined = undefined;
+    private _renamedTo = new Set<string>();
+    private _checker: ts.TypeChecker | undefined;
 
-    private _isUnused(name: ts.Identifier): boolean {
+    constructor(sourceFile: ts.SourceFile, ruleName: string, options: NormalizedConfig[], checker: ts.TypeChecker | undefined) {
+        super(sourceFile, ruleName, options);
+        this._checker = checker;
+    }
+
+    private _getUsage() {
         if (this._usage === undefined)
             this._usage = utils.collectVariableUsage(this.sourceFile);
-        return this._usage.get(name)!.uses.length === 0;
+        return this._usage;
+    }
+
+    private _isUnused(name: ts.Identifier): boolean {
+        return this._getUsage().get(name)!.uses.length === 0;
+    }
+
+    /**
+     * Renames the declaration and all uses of a variable.
+     * Returns undefined if renaming could change the behavior of this or any other file.
+     */
+    public getRenameFix(name: ts.Identifier, newName: string): Lint.Replacement[] | undefined {
+        if (this._ambient)
+            return; // ambient declarations refer to something declared elsewhere
+        const usage = this._getUsage();
+        const variable = usage.get(name);
+        if (variable === undefined || variable.exported || variable.inGlobalScope ||
+            utils.isParameterDeclaration(name.parent!) && utils.isParameterProperty(name.parent) ||
+            this._renamedTo.has(newName) || containsIdentifier(this.sourceFile.text, newName) ||
+            hasMergedDeclaration(name, variable, usage))
+            return;
+        const result = [];
+        for (const declaration of variable.declarations)
+            result.push(this._renameIdentifier(declaration, newName));
+        for (const use of variable.uses) {
+            if (isJsxTagName(use.location))
+                return; // lowercase tag names would be treated as intrinsic elements
+            result.push(this._renameIdentifier(use.location, newName));
+        }
+        this._renamedTo.add(newName);
+        return result;
+    }
+
+    private _renameIdentifier(identifier: ts.Identifier, newName: string): Lint.Replacement {
+        const parent = identifier.parent!;
+        switch (parent.kind) {
+            case ts.SyntaxKind.ShorthandPropertyAssignment:
+                // keep the property name: '{foo}' becomes '{foo: newName}'
+                return Lint.Replacement.appendText(identifier.end, ': ' + newName);
+            case ts.SyntaxKind.BindingElement:
+                // a rest element has no property name: '{...foo}' becomes '{...newName}'
+                if ((<ts.BindingElement>parent).propertyName === undefined && (<ts.BindingElement>parent).dotDotDotToken === undefined &&
+                    parent.parent!.kind === ts.SyntaxKind.ObjectBindingPattern)
+                    return Lint.Replacement.appendText(identifier.end, ': ' + newName);
+                break;
+            case ts.SyntaxKind.ImportSpecifier:
+                if ((<ts.ImportSpecifier>parent).propertyName === undefined)
+                    return Lint.Replacement.appendText(identifier.end, ' as ' + newName);
+        }
+        return Lint.Replacement.replaceNode(identifier, newName, this.sourceFile);
     }
 
     private _checkTypeParameters(
@@ -344,7 +740,10 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
 
     public visitMethodDeclaration(node: ts.MethodDeclaration) {
         if (isNameIdentifier(node))
-            this._checkDeclaration(node, TypeSelector.method);
+            this._checkDeclaration(
+                node,
+                node.parent!.kind === ts.SyntaxKind.ObjectLiteralExpression ? TypeSelector.objectLiteralMethod : TypeSelector.method,
+            );
         this._checkTypeParameters(node, Modifiers.local);
     }
 
@@ -386,6 +785,31 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
             this._checkDeclaration(node, TypeSelector.property);
     }
 
+    public visitPropertyAssignment(node: ts.PropertyAssignment) {
+        if (isNameIdentifier(node))
+            this._checkDeclaration(node, TypeSelector.objectLiteralProperty);
+    }
+
+    public visitTypeElement(node: ts.PropertySignature | ts.MethodSignature) {
+        if (isNameIdentifier(node))
+            this._checkDeclaration(node, TypeSelector.typeProperty);
+        if (node.kind === ts.SyntaxKind.MethodSignature)
+            this._checkTypeParameters(node, Modifiers.local);
+    }
+
+    public visitImport(node: ts.ImportClause | ts.ImportSpecifier | ts.NamespaceImport | ts.ImportEqualsDeclaration) {
+        if (node.name === undefined)
+            return;
+        let modifiers = this._isUnused(node.name) ? Modifiers.unused : 0;
+        if (node.kind === ts.SyntaxKind.ImportSpecifier && !isEqualName(node.name, node.propertyName))
+            modifiers |= Modifiers.rename;
+        this._checkDeclaration(
+            <DeclarationWithIdentifierName>node,
+            node.kind === ts.SyntaxKind.NamespaceImport ? TypeSelector.namespaceImport : TypeSelector.import,
+            modifiers,
+        );
+    }
+
     public visitSetAccessor(node: ts.SetAccessorDeclaration) {
         if (isNameIdentifier(node))
             this._checkDeclaration(node, TypeSelector.accessor);
@@ -429,9 +853,7 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
     }
 
     public visitVariableStatement(node: ts.VariableStatement) {
-        // skip 'declare' keywords
-        if (!utils.hasModifier(node.modifiers, ts.SyntaxKind.DeclareKeyword))
-            this._checkVariableDeclarationList(node.declarationList, this._getModifiers(node, TypeSelector.variable));
+        this._checkVariableDeclarationList(node.declarationList, this._getModifiers(node, TypeSelector.variable));
     }
 
     public visitFunction(node: ts.FunctionDeclaration | ts.FunctionExpression) {
@@ -444,21 +866,59 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
         this._checkTypeParameters(node, Modifiers.local);
     }
 
-    private _checkDeclaration(node: DeclarationWithIdentifierName, type: TypeSelector, initialModifiers?: Modifiers) {
+    private _checkDeclaration(node: DeclarationWithIdentifierName, type: TypeSelector, initialModifiers: Modifiers = 0) {
+        if (type & Types.member && this._checker !== undefined) {
+            const overridden = this._getOverriddenDeclarations(node);
+            if (overridden !== undefined) {
+                // names declared outside of the project cannot be changed, so don't complain about them
+                if (overridden.some((declaration) => declaration.getSourceFile().isDeclarationFile))
+                    return;
+                initialModifiers |= Modifiers.override;
+            }
+        }
         this._checkName(node.name, type, this._getModifiers(node, type, initialModifiers));
     }
 
+    /** Finds the declarations of a base class or implemented interface member with the same name as the given class member. */
+    private _getOverriddenDeclarations(node: DeclarationWithIdentifierName): ts.Declaration[] | undefined {
+        let classNode = node.parent!;
+        if (node.kind === ts.SyntaxKind.Parameter)
+            classNode = classNode.parent!; // parameter property
+        if (!utils.isClassLikeDeclaration(classNode) || classNode.heritageClauses === undefined ||
+            utils.hasModifier(node.modifiers, ts.SyntaxKind.StaticKeyword))
+            return;
+        for (const clause of classNode.heritageClauses) {
+            for (const base of clause.types) {
+                const property = this._checker!.getTypeAtLocation(base).getProperty(node.name.text);
+                if (property !== undefined && property.declarations !== undefined)
+                    return property.declarations;
+            }
+        }
+    }
+
     private _checkName(name: ts.Identifier, type: TypeSelector, modifiers: number) {
-        const matchingChecker = this._createChecker(type, modifiers, name.text);
+        if (this._ambient)
+            modifiers |= Modifiers.declare;
+        const matchingChecker = this._createChecker(type, modifiers, name.text, name);
+        if (matchingChecker !== null) // tslint:disable-line:no-null-keyword
+            matchingChecker.check(name, this, isExemptFromMinLength(name, modifiers));
+    }
+
+    private _checkFileName(sourceFile: ts.SourceFile) {
+        const baseName = getBaseName(sourceFile.fileName);
+        const modifiers = sourceFile.isDeclarationFile ? Modifiers.declare : 0;
+        const matchingChecker = this._createChecker(TypeSelector.file, modifiers, baseName, undefined);
         if (matchingChecker !== null) // tslint:disable-line:no-null-keyword
-            matchingChecker.check(name, this);
+            matchingChecker.checkFileName(sourceFile, baseName, this);
     }
 
-    private _createChecker(type: TypeSelector, modifiers: number, name: string): NameChecker | null {
+    private _createChecker(type: TypeSelector, modifiers: number, name: string, node: ts.Identifier | undefined): NameChecker | null {
+        const contributing: number[] = [];
         const config = this.options.reduce(
             (format: IFormat, rule) => {
-                if (!rule.matches(type, modifiers, name))
+                if (!rule.matches(type, modifiers, name, node, this._checker))
                     return format;
+                contributing.push(rule.getIndex());
                 return Object.assign(format, rule.getFormat()); // tslint:disable-line:prefer-object-spread
             },
             {
@@ -468,6 +928,14 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
                 prefix: undefined,
                 regex: undefined,
                 suffix : undefined,
+                acronyms: undefined,
+                acronymPolicy: undefined,
+                minLength: undefined,
+                maxLength: undefined,
+                forbiddenNames: undefined,
+                forbiddenWords: undefined,
+                matchExport: undefined,
+                explain: undefined,
             });
 
         // ohne Regeln kein Checker
@@ -476,9 +944,14 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
             !config.format &&
             !config.prefix &&
             !config.regex &&
-            !config.suffix)
+            !config.suffix &&
+            !config.minLength &&
+            !config.maxLength &&
+            (!config.forbiddenNames || config.forbiddenNames.length === 0) &&
+            (!config.forbiddenWords || config.forbiddenWords.length === 0) &&
+            !config.matchExport)
             return null; // tslint:disable-line:no-null-keyword
-        return new NameChecker(type, config);
+        return new NameChecker(type, config, config.explain ? explain(type, modifiers, contributing) : '');
     }
 
     private _getModifiers(node: ts.Node, type: TypeSelector, modifiers: Modifiers = 0): number {
@@ -491,12 +964,10 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
                 } else {
                     modifiers |= Modifiers.public;
                 }
-                if (utils.hasModifier(node.modifiers, ts.SyntaxKind.ReadonlyKeyword))
-                    modifiers |= Modifiers.const;
                 if (utils.hasModifier(node.modifiers, ts.SyntaxKind.StaticKeyword))
                     modifiers |= Modifiers.static;
             }
-            if (utils.hasModifier(node.modifiers, ts.SyntaxKind.ConstKeyword)) // stuff like const enums
+            if (utils.hasModifier(node.modifiers, ts.SyntaxKind.ConstKeyword, ts.SyntaxKind.ReadonlyKeyword)) // stuff like const enums
                 modifiers |= Modifiers.const;
             if (utils.hasModifier(node.modifiers, ts.SyntaxKind.ExportKeyword))
                 modifiers |= Modifiers.export;
@@ -504,22 +975,36 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
                 modifiers |= Modifiers.abstract;
         }
 
-        if (type !== TypeSelector.property && type !== TypeSelector.method)
-            modifiers |= this._depth !== 0 ? Modifiers.local : Modifiers.global;
+        switch (type) {
+            case TypeSelector.property:
+            case TypeSelector.method:
+            case TypeSelector.objectLiteralProperty:
+            case TypeSelector.objectLiteralMethod:
+            case TypeSelector.typeProperty:
+                break;
+            default:
+                modifiers |= this._depth !== 0 ? Modifiers.local : Modifiers.global;
+        }
 
         return modifiers;
     }
 
-    public walk(sourceFile: ts.Node) {
+    public walk(sourceFile: ts.SourceFile) {
+        this._ambient = sourceFile.isDeclarationFile;
+        this._checkFileName(sourceFile);
         const cb = (node: ts.Node): void => {
+            const wasAmbient = this._ambient;
+            if (utils.hasModifier(node.modifiers, ts.SyntaxKind.DeclareKeyword))
+                this._ambient = true; // everything inside of 'declare' is ambient, e.g. 'declare global', 'declare module "x"'
             this.visitNode(node);
             if (utils.isScopeBoundary(node)) {
                 ++this._depth;
                 ts.forEachChild(node, cb);
                 --this._depth;
             } else {
-                return ts.forEachChild(node, cb);
+                ts.forEachChild(node, cb);
             }
+            this._ambient = wasAmbient;
         };
         return ts.forEachChild(sourceFile, cb);
     }
@@ -558,6 +1043,16 @@ class IdentifierNameWalker extends Lint.AbstractWalker<NormalizedConfig[]> {
                 return this.visitSetAccessor(<ts.SetAccessorDeclaration>node);
             case ts.SyntaxKind.ArrowFunction:
                 return this.visitArrowFunction(<ts.ArrowFunction>node);
+            case ts.SyntaxKind.PropertyAssignment:
+                return this.visitPropertyAssignment(<ts.PropertyAssignment>node);
+            case ts.SyntaxKind.PropertySignature:
+            case ts.SyntaxKind.MethodSignature:
+                return this.visitTypeElement(<ts.PropertySignature | ts.MethodSignature>node);
+            case ts.SyntaxKind.ImportClause:
+            case ts.SyntaxKind.ImportSpecifier:
+            case ts.SyntaxKind.NamespaceImport:
+            case ts.SyntaxKind.ImportEqualsDeclaration:
+                return this.visitImport(<ts.ImportClause | ts.ImportSpecifier | ts.NamespaceImport | ts.ImportEqualsDeclaration>node);
         }
     }
 }
@@ -568,26 +1063,78 @@ function parseOptionArray<T>(option?: T | T[]): T | T[] | undefined {
     return option[0];
 }
 
-function matchesFormat(identifier: string, format: Format): boolean {
+function checkPrefixes(identifier: string, prefixes: string[], fail: (message: string) => void): string {
+    for (const prefix of prefixes)
+        if (identifier.startsWith(prefix))
+            return identifier.slice(prefix.length);
+    fail(PREFIX_FAIL_ARR + prefixes.toString());
+    return identifier;
+}
+
+function checkSuffixes(identifier: string, suffixes: string[], fail: (message: string) => void): string {
+    for (const suffix of suffixes)
+        if (identifier.endsWith(suffix))
+            return identifier.slice(0, -suffix.length);
+    fail(SUFFIX_FAIL_ARR + suffixes.toString());
+    return identifier;
+}
+
+/** Returns the name of a file without directory and extension, e.g. `src/user-service.d.ts` -> `user-service`. */
+function getBaseName(fileName: string): string {
+    return fileName.slice(fileName.lastIndexOf('/') + 1).replace(/(?:\.d)?\.[jt]sx?$/, '');
+}
+
+/** Returns the name of the default export or the only exported class. */
+function getMainExportName(sourceFile: ts.SourceFile): string | undefined {
+    let className: string | undefined;
+    let classCount = 0;
+    for (const statement of sourceFile.statements) {
+        if (utils.isExportAssignment(statement)) {
+            if (utils.isIdentifier(statement.expression))
+                return statement.expression.text;
+        } else if (utils.hasModifier(statement.modifiers, ts.SyntaxKind.ExportKeyword)) {
+            const name = (<ts.DeclarationStatement>statement).name;
+            if (utils.hasModifier(statement.modifiers, ts.SyntaxKind.DefaultKeyword))
+                return name !== undefined && utils.isIdentifier(name) ? name.text : undefined;
+            if (utils.isClassDeclaration(statement) && statement.name !== undefined) {
+                className = statement.name.text;
+                ++classCount;
+            }
+        }
+    }
+    return classCount === 1 ? className : undefined;
+}
+
+/** Loop counters like `i` and unused parameters named `_` are exempt from `minLength`. */
+function isExemptFromMinLength(name: ts.Identifier, modifiers: number): boolean {
+    const parent = name.parent!;
+    if (parent.kind === ts.SyntaxKind.Parameter)
+        return name.text === '_' && (modifiers & Modifiers.unused) !== 0;
+    return parent.kind === ts.SyntaxKind.VariableDeclaration && parent.parent!.parent!.kind === ts.SyntaxKind.ForStatement;
+}
+
+function matchesFormat(identifier: string, format: Format, acronyms: IAcronyms | undefined): boolean {
     switch (format) {
         case Format.Pascal:
             return isPascalCase(identifier);
         case Format.StrictPascal:
-            return isStrictPascalCase(identifier);
+            return isStrictPascalCase(identifier, acronyms);
         case Format.Camel:
             return isCamelCase(identifier);
         case Format.StrictCamel:
-            return isStrictCamelCase(identifier);
+            return isStrictCamelCase(identifier, acronyms);
         case Format.Snake:
             return isSnakeCase(identifier);
         case Format.Upper:
             return isUpperCase(identifier);
+        case Format.Kebab:
+            return isKebabCase(identifier);
     }
 }
 
-function matchesAnyFormat(identifier: string, formats: Format[]): boolean {
+function matchesAnyFormat(identifier: string, formats: Format[], acronyms: IAcronyms | undefined): boolean {
     for (const format of formats)
-        if (matchesFormat(identifier, format))
+        if (matchesFormat(identifier, format, acronyms))
             return true;
     return false;
 }
@@ -600,6 +1147,57 @@ function formatFormatList(formats: Format[]): string {
     return result + ' or ' + formats[lastIndex];
 }
 
+function convertFormat(identifier: string, format: Format, acronyms: IAcronyms | undefined): string {
+    let words = splitWords(identifier);
+    if (identifier === identifier.toUpperCase())
+        words = words.map((word) => word.toLowerCase()); // words of UPPER_CASE names are no acronyms
+    switch (format) {
+        case Format.Pascal:
+            return words.map(capitalize).join('');
+        case Format.StrictPascal:
+            return splitAcronyms(words, acronyms).map((word) => convertStrictWord(word, acronyms)).join('');
+        case Format.Camel:
+            return words.map((word, i) => i === 0 ? word.toLowerCase() : capitalize(word)).join('');
+        case Format.StrictCamel:
+            return splitAcronyms(words, acronyms)
+                .map((word, i) => i === 0 ? word.toLowerCase() : convertStrictWord(word, acronyms)).join('');
+        case Format.Snake:
+            return words.join('_').toLowerCase();
+        case Format.Upper:
+            return words.join('_').toUpperCase();
+        case Format.Kebab:
+            return words.join('-').toLowerCase();
+    }
+}
+
+/** Splits a name at underscores, dashes and camel humps. Consecutive uppercase characters form a word, e.g. `XMLHttp` -> `XML`, `Http` */
+function splitWords(name: string): string[] {
+    const words = [];
+    let current = '';
+    for (let i = 0; i < name.length; ++i) {
+        const char = name[i];
+        if (char === '_' || char === '-') {
+            if (current !== '')
+                words.push(current);
+            current = '';
+            continue;
+        }
+        if (current !== '' && isUppercaseChar(char) &&
+            (!isUppercaseChar(current[current.length - 1]) || i + 1 < name.length && isLowercaseChar(name[i + 1]))) {
+            words.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    if (current !== '')
+        words.push(current);
+    return words;
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
 function isPascalCase(name: string) {
     return name.length === 0 || name[0] === name[0].toUpperCase() && !name.includes('_');
 }
@@ -608,12 +1206,81 @@ function isCamelCase(name: string) {
     return name.length === 0 || name[0] === name[0].toLowerCase() && !name.includes('_');
 }
 
-function isStrictPascalCase(name: string) {
-    return name.length === 0 || name[0] === name[0].toUpperCase() && hasStrictCamelHumps(name, true);
+function isStrictPascalCase(name: string, acronyms: IAcronyms | undefined) {
+    return name.length === 0 || name[0] === name[0].toUpperCase() &&
+        (acronyms === undefined ? hasStrictCamelHumps(name, true) : hasStrictWords(name, acronyms, true));
 }
 
-function isStrictCamelCase(name: string) {
-    return name.length === 0 || name[0] === name[0].toLowerCase() && hasStrictCamelHumps(name, false);
+function isStrictCamelCase(name: string, acronyms: IAcronyms | undefined) {
+    return name.length === 0 || name[0] === name[0].toLowerCase() &&
+        (acronyms === undefined ? hasStrictCamelHumps(name, false) : hasStrictWords(name, acronyms, false));
+}
+
+/**
+ * Checks the words of a name instead of single characters. Consecutive uppercase characters are only allowed
+ * if they consist of known acronyms and the policy allows uppercase acronyms.
+ */
+function hasStrictWords(name: string, acronyms: IAcronyms, isPascal: boolean) {
+    if (name.includes('_'))
+        return false;
+    const words = splitWords(name);
+    for (let i = isPascal ? 0 : 1; i < words.length; ++i) {
+        const word = words[i];
+        if (isUppercaseWord(word)) {
+            if (acronyms.policy === 'capitalized' || splitAcronym(word, acronyms.words) === undefined)
+                return false;
+        } else if (acronyms.policy === 'upper' && acronyms.words.has(stripDigits(word).toUpperCase())) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/** Splits runs of uppercase characters into the contained acronyms, e.g. `XMLHTTP` -> `XML`, `HTTP`. */
+function splitAcronyms(words: string[], acronyms: IAcronyms | undefined): string[] {
+    if (acronyms === undefined)
+        return words;
+    const result = [];
+    for (const word of words) {
+        const parts = isUppercaseWord(word) ? splitAcronym(word, acronyms.words) : undefined;
+        if (parts === undefined) {
+            result.push(word);
+        } else {
+            result.push(...parts);
+        }
+    }
+    return result;
+}
+
+/** Returns the acronyms that form the given uppercase word or undefined if it cannot be composed of known acronyms. */
+function splitAcronym(word: string, words: Set<string>): string[] | undefined {
+    const letters = stripDigits(word);
+    if (letters.length === 0 || words.has(letters))
+        return [word];
+    for (let i = letters.length - 1; i > 0; --i) {
+        if (!words.has(letters.slice(0, i)))
+            continue;
+        const rest = splitAcronym(word.slice(i), words);
+        if (rest !== undefined)
+            return [word.slice(0, i), ...rest];
+    }
+    return;
+}
+
+function convertStrictWord(word: string, acronyms: IAcronyms | undefined): string {
+    if (acronyms !== undefined && acronyms.words.has(stripDigits(word).toUpperCase()) &&
+        (acronyms.policy === 'upper' || acronyms.policy === 'any' && isUppercaseWord(word)))
+        return word.toUpperCase();
+    return capitalize(word.toLowerCase());
+}
+
+/** Returns true if the word contains more than one uppercase and no lowercase character. */
+function isUppercaseWord(word: string) {
+    return word === word.toUpperCase() && word.length > 1 && isUppercaseChar(word[1]);
+}
+
+function stripDigits(word: string) {
+    return word.replace(/\d+$/, '');
 }
 
 function hasStrictCamelHumps(name: string, isUpper: boolean) {
@@ -636,29 +1303,37 @@ function isUppercaseChar(char: string) {
     return char === char.toUpperCase() && char !== char.toLowerCase();
 }
 
+function isLowercaseChar(char: string) {
+    return char === char.toLowerCase() && char !== char.toUpperCase();
+}
+
 function isSnakeCase(name: string) {
-    return name === name.toLowerCase() && validateUnderscores(name);
+    return name === name.toLowerCase() && validateSeparators(name, '_');
 }
 
 function isUpperCase(name: string) {
-    return name === name.toUpperCase() && validateUnderscores(name);
+    return name === name.toUpperCase() && validateSeparators(name, '_');
 }
 
 /** Check for leading trailing and adjacent underscores */
-function validateUnderscores(name: string) {
-    if (name[0] === '_')
+function isKebabCase(name: string) {
+    return name === name.toLowerCase() && !name.includes('_') && validateSeparators(name, '-');
+}
+
+function validateSeparators(name: string, separator: string) {
+    if (name[0] === separator)
         return false;
-    let wasUnderscore = false;
+    let wasSeparator = false;
     for (let i = 1; i < name.length; ++i) {
-        if (name[i] === '_') {
-            if (wasUnderscore)
+        if (name[i] === separator) {
+            if (wasSeparator)
                 return false;
-            wasUnderscore = true;
+            wasSeparator = true;
         } else {
-            wasUnderscore = false;
+            wasSeparator = false;
         }
     }
-    return !wasUnderscore;
+    return !wasSeparator;
 }
 
 function isNameIdentifier(node: ts.Declaration & {name: ts.DeclarationName}): node is DeclarationWithIdentifierName {
@@ -680,3 +1355,75 @@ function isFunctionVariable(declaration: ts.VariableDeclaration | ts.BindingElem
     }
     return false;
 }
+
+function containsIdentifier(text: string, name: string): boolean {
+    return new RegExp(`(?:^|[^\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(text);
+}
+
+/** Checks if a declaration in a different domain merges with `name`, e.g. `class Foo {}` and `namespace Foo {}` */
+function hasMergedDeclaration(name: ts.Identifier, variable: utils.VariableInfo, usage: Map<ts.Identifier, utils.VariableInfo>): boolean {
+    let result = false;
+    usage.forEach((other, identifier) => {
+        if (other !== variable && identifier.text === name.text && identifier.parent!.parent === name.parent!.parent)
+            result = true;
+    });
+    return result;
+}
+
+function isJsxTagName(identifier: ts.Identifier): boolean {
+    switch (identifier.parent!.kind) {
+        case ts.SyntaxKind.JsxOpeningElement:
+        case ts.SyntaxKind.JsxSelfClosingElement:
+        case ts.SyntaxKind.JsxClosingElement:
+            return (<ts.JsxOpeningLikeElement | ts.JsxClosingElement>identifier.parent).tagName === identifier;
+        default:
+            return false;
+    }
+}
+
+function matchesAnyType(type: ts.Type, typeNames: string[], location: ts.Node, checker: ts.TypeChecker): boolean {
+    type = checker.getNonNullableType(type);
+    for (const typeName of typeNames)
+        if (matchesType(type, typeName, location, checker))
+            return true;
+    return false;
+}
+
+function matchesType(type: ts.Type, typeName: string, location: ts.Node, checker: ts.TypeChecker): boolean {
+    if (utils.isTypeFlagSet(type, ts.TypeFlags.Any))
+        return false;
+    if (utils.isUnionType(type))
+        return type.types.every((t) => matchesType(t, typeName, location, checker));
+    switch (typeName) {
+        case 'boolean':
+            return utils.isTypeFlagSet(type, ts.TypeFlags.BooleanLike);
+        case 'string':
+            return utils.isTypeFlagSet(type, ts.TypeFlags.StringLike);
+        case 'number':
+            return utils.isTypeFlagSet(type, ts.TypeFlags.NumberLike);
+        case 'function':
+            return type.getCallSignatures().length !== 0;
+        case 'array':
+            return isNamedType(type, 'Array', checker) || isNamedType(type, 'ReadonlyArray', checker) ||
+                utils.isTypeReference(type) && utils.isObjectFlagSet(type.target, ts.ObjectFlags.Tuple);
+        case 'promise': {
+            // everything that can be awaited
+            const then = type.getProperty('then');
+            return then !== undefined && checker.getTypeOfSymbolAtLocation(then, location).getCallSignatures().length !== 0;
+        }
+        default:
+            return isNamedType(type, typeName, checker);
+    }
+}
+
+/** Checks the name of the type, its alias and all of its base types. */
+function isNamedType(type: ts.Type, typeName: string, checker: ts.TypeChecker): boolean {
+    if (type.aliasSymbol !== undefined && type.aliasSymbol.name === typeName)
+        return true;
+    if (type.symbol === undefined)
+        return false;
+    if (type.symbol.name === typeName)
+        return true;
+    const target = utils.isTypeReference(type) ? type.target : type;
+    return utils.isInterfaceType(target) && checker.getBaseTypes(target).some((base) => isNamedType(base, typeName, checker));
+}
@@ -13,50 +13,106 @@ import {
     isValidNumericLiteral,
     isIntersectionType,
     getIIFE,
+    hasModifier,
+    isObjectBindingPattern,
+    isOmittedExpression,
+    getChildOfKind,
+    isTypeReference,
 } from 'tsutils';
+import { formatFlags, hasThisParameter, isTypeIdenticalTo } from '../src/types';
 
 type FunctionExpressionLike = ts.ArrowFunction | ts.FunctionExpression;
 
 const CHECK_RETURN_TYPE_OPTION = 'check-return-type';
+const REQUIRE_OPTION = 'require';
+const CHECK_TYPE_ARGUMENTS_OPTION = 'check-type-arguments';
+const CHECK_TYPE_ASSERTIONS_OPTION = 'check-type-assertions';
+const FUNCTION_TYPE_LOCATION_OPTION = 'function-type-location';
 const FAIL_MESSAGE = `type annotation is redundant`;
+const MISSING_RETURN_TYPE_MESSAGE = `return type annotation of exported function is missing`;
+const TYPE_ARGUMENTS_MESSAGE = `type arguments are redundant`;
+const TYPE_ASSERTION_MESSAGE = `type assertion is redundant`;
+const FUNCTION_TYPE_LOCATION_MESSAGE = `signature types should be declared on the function instead of the variable`;
+
+const enum FunctionTypeLocation {
+    Variable = 'variable',
+    Function = 'function',
+}
+
+interface IObjectOptions {
+    [FUNCTION_TYPE_LOCATION_OPTION]?: FunctionTypeLocation;
+}
 
 interface IOptions {
     checkReturnType: boolean;
+    require: boolean;
+    checkTypeArguments: boolean;
+    checkTypeAssertions: boolean;
+    functionTypeLocation: FunctionTypeLocation | undefined;
 }
 
 export class Rule extends Lint.Rules.TypedRule {
     public applyWithProgram(sourceFile: ts.SourceFile, program: ts.Program): Lint.RuleFailure[] {
+        const objectOptions: IObjectOptions = Object.assign(
+            {},
+            ...this.ruleArguments.filter((option): option is IObjectOptions => typeof option === 'object'),
+        );
         return this.applyWithFunction(
             sourceFile,
             walk, {
                 checkReturnType: this.ruleArguments.indexOf(CHECK_RETURN_TYPE_OPTION) !== -1,
+                require: this.ruleArguments.indexOf(REQUIRE_OPTION) !== -1,
+                checkTypeArguments: this.ruleArguments.indexOf(CHECK_TYPE_ARGUMENTS_OPTION) !== -1,
+                checkTypeAssertions: this.ruleArguments.indexOf(CHECK_TYPE_ASSERTIONS_OPTION) !== -1,
+                functionTypeLocation: objectOptions[FUNCTION_TYPE_LOCATION_OPTION],
             },
             program.getTypeChecker(),
         );
     }
 }
 
-const formatFlags = ts.TypeFormatFlags.UseStructuralFallback
-    | ts.TypeFormatFlags.UseFullyQualifiedType
-    | ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
-    | ts.TypeFormatFlags.NoTruncation
-    | ts.TypeFormatFlags.WriteClassExpressionAsTypeLiteral
-    | ts.TypeFormatFlags.WriteArrowStyleSignature;
-
 function walk(ctx: Lint.WalkContext<IOptions>, checker: ts.TypeChecker) {
+    // type annotations cannot be added to JavaScript files
+    const requireAnnotations = ctx.options.require && !/\.jsx?$/.test(ctx.sourceFile.fileName);
+    // functions whose signature types are moved from the variable's type annotation by a fix
+    const movedSignatureTypes = new Set<ts.Node>();
     return ts.forEachChild(ctx.sourceFile, function cb(node): void {
+        if (requireAnnotations)
+            checkMissingAnnotation(node);
         switch (node.kind) {
             case ts.SyntaxKind.ArrowFunction:
             case ts.SyntaxKind.FunctionExpression:
                 checkFunction(<FunctionExpressionLike>node);
                 break;
             case ts.SyntaxKind.MethodDeclaration:
-                if (node.parent!.kind === ts.SyntaxKind.ObjectLiteralExpression)
+                if (node.parent!.kind === ts.SyntaxKind.ObjectLiteralExpression) {
                     checkObjectLiteralMethod(<ts.MethodDeclaration>node);
+                    break;
+                }
+                // falls through
+            case ts.SyntaxKind.FunctionDeclaration:
+            case ts.SyntaxKind.Constructor:
+                checkParameterInitializers((<ts.FunctionLikeDeclaration>node).parameters);
                 break;
+            case ts.SyntaxKind.PropertyDeclaration: {
+                const {type, initializer} = <ts.PropertyDeclaration>node;
+                if (type !== undefined && initializer !== undefined)
+                    // the type of a property is part of the class' type, narrowing it to the literal type is not safe
+                    checkInitializer(type, initializer, hasModifier(node.modifiers, ts.SyntaxKind.ReadonlyKeyword), false);
+                break;
+            }
             case ts.SyntaxKind.VariableDeclarationList:
-                // TODO add an option where to put the type annotation for functions (variable or function)
                 checkVariables(<ts.VariableDeclarationList>node);
+                break;
+            case ts.SyntaxKind.CallExpression:
+            case ts.SyntaxKind.NewExpression:
+                if (ctx.options.checkTypeArguments && (<ts.CallExpression | ts.NewExpression>node).typeArguments !== undefined)
+                    checkTypeArguments(<ts.CallExpression | ts.NewExpression>node);
+                break;
+            case ts.SyntaxKind.AsExpression:
+            case ts.SyntaxKind.TypeAssertionExpression:
+                if (ctx.options.checkTypeAssertions)
+                    checkTypeAssertion(<ts.AssertionExpression>node);
         }
         return ts.forEachChild(node, cb);
     });
@@ -70,10 +126,18 @@ function walk(ctx: Lint.WalkContext<IOptions>, checker: ts.TypeChecker) {
         if (iife !== undefined)
             return checkIife(node, iife);
 
+        if (movedSignatureTypes.has(node))
+            return; // the variable's type annotation is reported instead
+        const isVariableInitializer = isInitializerOfAnnotatedVariable(node);
+
         const type = getContextualTypeOfFunction(node);
         if (type === undefined)
-            return;
-        checkContextSensitiveFunctionOrMethod(node, type);
+            return checkParameterInitializers(node.parameters);
+        checkContextSensitiveFunctionOrMethod(
+            node,
+            type,
+            ctx.options.checkReturnType || isVariableInitializer && ctx.options.functionTypeLocation === FunctionTypeLocation.Variable,
+        );
     }
 
     function checkObjectLiteralMethod(node: ts.MethodDeclaration) {
@@ -82,18 +146,18 @@ function walk(ctx: Lint.WalkContext<IOptions>, checker: ts.TypeChecker) {
 
         const type = getContextualTypeOfObjectLiteralMethod(node);
         if (type === undefined)
-            return;
-        checkContextSensitiveFunctionOrMethod(node, type);
+            return checkParameterInitializers(node.parameters);
+        checkContextSensitiveFunctionOrMethod(node, type, ctx.options.checkReturnType);
     }
 
-    function checkContextSensitiveFunctionOrMethod(node: ts.FunctionLikeDeclaration, contextualType: ts.Type) {
+    function checkContextSensitiveFunctionOrMethod(node: ts.FunctionLikeDeclaration, contextualType: ts.Type, checkReturnType: boolean) {
         const parameters = parametersExceptThis(node.parameters);
         const sig = getMatchingSignature(contextualType, parameters);
         if (sig === undefined)
             return;
         const [signature, checkReturn] = sig;
 
-        if (ctx.options.checkReturnType && checkReturn && node.type !== undefined && !signatureHasGenericOrTypePredicateReturn(signature) &&
+        if (checkReturnType && checkReturn && node.type !== undefined && !signatureHasGenericOrTypePredicateReturn(signature) &&
             typesAreEqual(checker.getTypeFromTypeNode(node.type), signature.getReturnType()))
             fail(node.type);
 
@@ -183,22 +247,416 @@ function walk(ctx: Lint.WalkContext<IOptions>, checker: ts.TypeChecker) {
         for (const variable of list.declarations) {
             if (variable.type === undefined || variable.initializer === undefined)
                 continue;
-            let inferred = checker.getTypeAtLocation(variable.initializer);
-            if (!isConst)
-                inferred = checker.getBaseTypeOfLiteralType(inferred);
-            const declared = checker.getTypeFromTypeNode(variable.type);
-            if (typesAreEqual(declared, inferred) || isConst && typesAreEqual(declared, checker.getBaseTypeOfLiteralType(inferred)))
+            if (variable.name.kind === ts.SyntaxKind.Identifier) {
+                const initializer = skipParentheses(variable.initializer);
+                if (ctx.options.functionTypeLocation !== undefined &&
+                    (initializer.kind === ts.SyntaxKind.ArrowFunction || initializer.kind === ts.SyntaxKind.FunctionExpression)) {
+                    // with 'variable' the type annotations of the function are reported
+                    if (ctx.options.functionTypeLocation === FunctionTypeLocation.Variable)
+                        continue;
+                    if (checkFunctionTypeLocation(variable.type, <FunctionExpressionLike>initializer)) {
+                        movedSignatureTypes.add(initializer);
+                        continue;
+                    }
+                }
+                checkInitializer(variable.type, variable.initializer, isConst);
+            } else if (!isLiteralExpression(variable.initializer) && bindingPatternHasInferredTypes(
+                variable.name,
+                checker.getTypeAtLocation(variable.initializer),
+            )) {
                 fail(variable.type);
+            }
+        }
+    }
+
+    /**
+     * Reports the variable's type annotation and moves the types of its signature to the function if they are the same.
+     * Returns `true` if the annotation was reported.
+     */
+    function checkFunctionTypeLocation(typeNode: ts.TypeNode, func: FunctionExpressionLike): boolean {
+        if (func.typeParameters !== undefined)
+            return false;
+        const type = checker.getTypeFromTypeNode(typeNode);
+        // the type contains more than a single signature
+        if (checker.getPropertiesOfType(type).length !== 0 || type.getConstructSignatures().length !== 0 ||
+            type.getStringIndexType() !== undefined || type.getNumberIndexType() !== undefined || type.getCallSignatures().length !== 1)
+            return false;
+        const signature = type.getCallSignatures()[0];
+        const parameters = parametersExceptThis(func.parameters);
+        // the function would need a 'this' parameter to keep the type of 'this'
+        if (signature.typeParameters !== undefined || hasThisParameter(signature) ||
+            signatureHasGenericOrTypePredicateReturn(signature) || parameters.length !== signature.parameters.length)
+            return false;
+
+        // type annotations that need to be added to the parameters
+        const parameterTypes: Array<string | undefined> = [];
+        for (let i = 0; i < parameters.length; ++i) {
+            const parameter = parameters[i];
+            const declaration = <ts.ParameterDeclaration | undefined>signature.parameters[i].valueDeclaration;
+            const optional = parameter.questionToken !== undefined || parameter.initializer !== undefined;
+            if (declaration === undefined || (declaration.dotDotDotToken === undefined) !== (parameter.dotDotDotToken === undefined) ||
+                optional !== checker.isOptionalParameter(declaration))
+                return false;
+            const contextualType = checker.getTypeOfSymbolAtLocation(signature.parameters[i], typeNode);
+            if (parameter.type === undefined) {
+                parameterTypes.push(': ' + checker.typeToString(
+                    optional ? removeOptionalityFromType(contextualType) : contextualType,
+                    func,
+                    formatFlags,
+                ));
+            } else if (compareParameterTypes(contextualType, checker.getTypeFromTypeNode(parameter.type), optional)) {
+                parameterTypes.push(undefined);
+            } else {
+                return false;
+            }
+        }
+        let returnType: string | undefined;
+        if (func.type === undefined) {
+            returnType = ': ' + checker.typeToString(signature.getReturnType(), func, formatFlags);
+        } else if (!typesAreEqual(checker.getTypeFromTypeNode(func.type), signature.getReturnType())) {
+            return false;
+        }
+
+        const fix = [Lint.Replacement.deleteFromTo(typeNode.pos - 1, typeNode.end)];
+        const closeParen = getChildOfKind(func, ts.SyntaxKind.CloseParenToken, ctx.sourceFile);
+        if (closeParen === undefined) { // arrow function with a single parameter without parens
+            const parameter = parameters[0];
+            fix.push(Lint.Replacement.replaceFromTo(
+                parameter.getStart(ctx.sourceFile),
+                parameter.end,
+                `(${parameter.getText(ctx.sourceFile)}${parameterTypes[0]})${returnType}`,
+            ));
+        } else {
+            for (let i = 0; i < parameters.length; ++i) {
+                const parameter = parameters[i];
+                const text = parameterTypes[i];
+                if (text !== undefined)
+                    fix.push(Lint.Replacement.appendText((parameter.questionToken || parameter.name).end, text));
+            }
+            if (returnType !== undefined)
+                fix.push(Lint.Replacement.appendText(closeParen.end, returnType));
+        }
+        ctx.addFailure(typeNode.pos - 1, typeNode.end, FUNCTION_TYPE_LOCATION_MESSAGE, fix);
+        return true;
+    }
+
+    /** Parameters with default value are only inferred from the initializer if the function is not contextually typed. */
+    function checkParameterInitializers(parameters: ReadonlyArray<ts.ParameterDeclaration>) {
+        for (const parameter of parameters)
+            if (parameter.type !== undefined && parameter.initializer !== undefined && parameter.name.kind === ts.SyntaxKind.Identifier)
+                checkInitializer(parameter.type, parameter.initializer, false);
+    }
+
+    /**
+     * `keepLiteralType` is true for declarations that don't widen literal types, i.e. `const` variables and `readonly` properties.
+     * `allowBaseType` additionally reports annotations with the base type of the inferred literal type.
+     */
+    function checkInitializer(type: ts.TypeNode, initializer: ts.Expression, keepLiteralType: boolean, allowBaseType = keepLiteralType) {
+        let inferred = checker.getTypeAtLocation(initializer);
+        if (!keepLiteralType)
+            inferred = checker.getBaseTypeOfLiteralType(inferred);
+        const declared = checker.getTypeFromTypeNode(type);
+        if ((typesAreEqual(declared, inferred) || allowBaseType && typesAreEqual(declared, checker.getBaseTypeOfLiteralType(inferred))) &&
+            !keepsLiteralTypesFromContext(initializer, inferred) && !getsThisTypeFromContext(initializer, declared))
+            fail(type);
+    }
+
+    /** Function expressions without a 'this' parameter get the type of 'this' only from the contextual type, i.e. the annotation. */
+    function getsThisTypeFromContext(node: ts.Expression, type: ts.Type): boolean {
+        node = skipParentheses(node);
+        return node.kind === ts.SyntaxKind.FunctionExpression &&
+            !(<ts.FunctionExpression>node).parameters.some(isThisParameter) &&
+            type.getCallSignatures().some(hasThisParameter);
+    }
+
+    /** Literals inside of object and array literals are widened unless the contextual type, i.e. the annotation, contains literal types. */
+    function keepsLiteralTypesFromContext(node: ts.Expression, type: ts.Type): boolean {
+        node = skipParentheses(node);
+        if (node.kind === ts.SyntaxKind.ArrayLiteralExpression)
+            return (<ts.ArrayLiteralExpression>node).elements.some((element, i) => {
+                const property = type.getProperty(String(i));
+                const elementType = property === undefined
+                    ? type.getNumberIndexType()
+                    : checker.getTypeOfSymbolAtLocation(property, element);
+                return elementType !== undefined && elementKeepsLiteralType(element, elementType);
+            });
+        if (node.kind === ts.SyntaxKind.ObjectLiteralExpression)
+            return (<ts.ObjectLiteralExpression>node).properties.some((property) => {
+                if (property.kind !== ts.SyntaxKind.PropertyAssignment)
+                    return false;
+                const name = getPropertyName(property.name);
+                const symbol = name === undefined ? undefined : type.getProperty(name);
+                return symbol !== undefined &&
+                    elementKeepsLiteralType(property.initializer, checker.getTypeOfSymbolAtLocation(symbol, property));
+            });
+        return false;
+    }
+
+    function elementKeepsLiteralType(node: ts.Expression, type: ts.Type): boolean {
+        return isLiteralValue(skipParentheses(node))
+            ? containsTypeWithFlag(type, ts.TypeFlags.Literal)
+            : keepsLiteralTypesFromContext(node, type);
+    }
+
+    /** Checks if every name in the binding pattern gets the same type when the pattern is inferred from `type`. */
+    function bindingPatternHasInferredTypes(pattern: ts.BindingPattern, type: ts.Type): boolean {
+        for (let i = 0; i < pattern.elements.length; ++i) {
+            const element = pattern.elements[i];
+            if (isOmittedExpression(element))
+                continue;
+            if (element.dotDotDotToken !== undefined || element.initializer !== undefined)
+                return false; // the type of rest and default values is not simply the type of a property
+            let elementType: ts.Type | undefined;
+            if (isObjectBindingPattern(pattern)) {
+                const name = getPropertyName(element.propertyName === undefined ? <ts.Identifier>element.name : element.propertyName);
+                const property = name === undefined ? undefined : type.getProperty(name);
+                elementType = property && checker.getTypeOfSymbolAtLocation(property, element);
+            } else {
+                const property = type.getProperty(String(i));
+                elementType = property === undefined ? type.getNumberIndexType() : checker.getTypeOfSymbolAtLocation(property, element);
+            }
+            if (elementType === undefined)
+                return false;
+            if (element.name.kind === ts.SyntaxKind.Identifier
+                ? !typesAreEqual(checker.getTypeAtLocation(element.name), elementType)
+                : !bindingPatternHasInferredTypes(element.name, elementType))
+                return false;
+        }
+        return true;
+    }
+
+    function checkMissingAnnotation(node: ts.Node) {
+        switch (node.kind) {
+            case ts.SyntaxKind.FunctionDeclaration:
+                if (hasModifier(node.modifiers, ts.SyntaxKind.ExportKeyword))
+                    checkMissingReturnType(<ts.FunctionDeclaration>node, (<ts.FunctionDeclaration>node).name);
+                break;
+            case ts.SyntaxKind.ExportAssignment:
+                checkExportedExpression((<ts.ExportAssignment>node).expression, undefined);
+                break;
+            case ts.SyntaxKind.VariableStatement: {
+                const exported = hasModifier(node.modifiers, ts.SyntaxKind.ExportKeyword);
+                for (const variable of (<ts.VariableStatement>node).declarationList.declarations) {
+                    const {type, initializer, name} = variable;
+                    if (type !== undefined || initializer === undefined || name.kind !== ts.SyntaxKind.Identifier)
+                        continue;
+                    if (exported)
+                        checkExportedExpression(initializer, name);
+                    checkEmptyLiteral(name, initializer);
+                }
+                break;
+            }
+            case ts.SyntaxKind.PropertyDeclaration: {
+                const {type, initializer, name} = <ts.PropertyDeclaration>node;
+                if (type === undefined && initializer !== undefined)
+                    checkEmptyLiteral(name, initializer);
+            }
+        }
+    }
+
+    function checkExportedExpression(expression: ts.Expression, name: ts.Identifier | undefined) {
+        expression = skipParenthesesAndAssertions(expression);
+        if (expression.kind !== ts.SyntaxKind.ArrowFunction && expression.kind !== ts.SyntaxKind.FunctionExpression)
+            return;
+        const func = <FunctionExpressionLike>expression;
+        // a contextually typed function gets its return type from the context, e.g. `<Handler>((e) => {})`
+        const type = getContextualTypeOfFunction(func);
+        if (type === undefined || getMatchingSignature(type, parametersExceptThis(func.parameters)) === undefined)
+            checkMissingReturnType(func, name !== undefined ? name : func.name);
+    }
+
+    function checkMissingReturnType(node: ts.FunctionLikeDeclaration, name: ts.Node | undefined) {
+        if (node.type !== undefined || node.body === undefined)
+            return;
+        if (node.kind === ts.SyntaxKind.FunctionDeclaration && node.name !== undefined) {
+            // the overloads are the public signatures of the function
+            const symbol = checker.getSymbolAtLocation(node.name);
+            if (symbol !== undefined && symbol.declarations!.some((d) => d !== node && d.kind === ts.SyntaxKind.FunctionDeclaration))
+                return;
+        }
+        const signature = checker.getSignatureFromDeclaration(node);
+        if (signature === undefined)
+            return;
+        const text = ': ' + checker.typeToString(signature.getReturnType(), node, formatFlags);
+        const closeParen = getChildOfKind(node, ts.SyntaxKind.CloseParenToken, ctx.sourceFile);
+        let fix: Lint.Replacement;
+        if (closeParen !== undefined) {
+            fix = Lint.Replacement.appendText(closeParen.end, text);
+        } else { // arrow function with a single parameter without parens
+            const parameter = node.parameters[0];
+            fix = Lint.Replacement.replaceFromTo(
+                parameter.getStart(ctx.sourceFile),
+                parameter.end,
+                `(${parameter.getText(ctx.sourceFile)})${text}`,
+            );
+        }
+        if (name === undefined)
+            name = node.kind === ts.SyntaxKind.ArrowFunction
+                ? node.equalsGreaterThanToken
+                : getChildOfKind(node, ts.SyntaxKind.FunctionKeyword, ctx.sourceFile)!;
+        ctx.addFailureAtNode(name, MISSING_RETURN_TYPE_MESSAGE, fix);
+    }
+
+    /** `[]` and `{}` are inferred as `never[]`, `any[]` or `{}` unless there is a type annotation. */
+    function checkEmptyLiteral(name: ts.PropertyName, initializer: ts.Expression) {
+        initializer = skipParentheses(initializer);
+        switch (initializer.kind) {
+            case ts.SyntaxKind.ArrayLiteralExpression:
+                if ((<ts.ArrayLiteralExpression>initializer).elements.length !== 0)
+                    return;
+                break;
+            case ts.SyntaxKind.ObjectLiteralExpression:
+                if ((<ts.ObjectLiteralExpression>initializer).properties.length !== 0)
+                    return;
+                break;
+            default:
+                return;
         }
+        const type = checker.typeToString(checker.getTypeAtLocation(name), name, formatFlags);
+        // there's no fix, inserting the inferred type would only make the poor type explicit
+        ctx.addFailureAtNode(name, `type annotation is missing, the type is inferred as '${type}'`);
+    }
+
+    function checkTypeAssertion(node: ts.AssertionExpression) {
+        // the asserted type is the contextual type of the expression, removing it changes the type of literals, functions and generic calls
+        if (isContextSensitiveExpression(node.expression) || isLiteralValue(skipParentheses(node.expression)) ||
+            isInferringGenericCall(node.expression))
+            return;
+        if (!typesAreEqual(checker.getTypeFromTypeNode(node.type), checker.getTypeAtLocation(node.expression)))
+            return;
+        const fix = node.kind === ts.SyntaxKind.AsExpression
+            ? Lint.Replacement.deleteFromTo(node.expression.end, node.end)
+            : Lint.Replacement.deleteFromTo(node.getStart(ctx.sourceFile), node.expression.getStart(ctx.sourceFile));
+        ctx.addFailureAtNode(node, TYPE_ASSERTION_MESSAGE, fix);
+    }
+
+    function checkTypeArguments(node: ts.CallExpression | ts.NewExpression) {
+        const typeArguments = node.typeArguments!;
+        const args = node.arguments === undefined ? [] : node.arguments;
+        // explicit type arguments provide the contextual type for these arguments
+        if (args.some((arg) => isContextSensitiveExpression(arg) || isInferringGenericCall(arg)))
+            return;
+        const signature = getGenericSignature(node);
+        if (signature === undefined || signature.typeParameters!.length !== typeArguments.length)
+            return;
+        // without type arguments overload resolution also considers the signatures with a different number of type parameters
+        const calleeType = checker.getTypeAtLocation(node.expression);
+        const signatures = node.kind === ts.SyntaxKind.NewExpression ? calleeType.getConstructSignatures() : calleeType.getCallSignatures();
+        if (signatures.some((s) => (s.typeParameters === undefined ? 0 : s.typeParameters.length) !== typeArguments.length &&
+                                   acceptsArgumentCount(s, args.length)))
+            return;
+        const inferred = inferTypeArguments(signature, signature.typeParameters!, args);
+        if (inferred === undefined ||
+            !inferred.every((type, i) => type !== undefined && typesAreEqual(checker.getTypeFromTypeNode(typeArguments[i]), type)))
+            return;
+        // there may be whitespace and comments between the angle brackets and the type arguments
+        const start = getChildOfKind(node, ts.SyntaxKind.LessThanToken, ctx.sourceFile)!.getStart(ctx.sourceFile);
+        const end = getChildOfKind(node, ts.SyntaxKind.GreaterThanToken, ctx.sourceFile)!.end;
+        ctx.addFailure(start, end, TYPE_ARGUMENTS_MESSAGE, Lint.Replacement.deleteFromTo(start, end));
+    }
+
+    /** Checks if the expression is a call of a generic signature without type arguments, which may infer them from the contextual type. */
+    function isInferringGenericCall(node: ts.Expression): boolean {
+        node = skipParentheses(node);
+        return (node.kind === ts.SyntaxKind.CallExpression || node.kind === ts.SyntaxKind.NewExpression) &&
+            (<ts.CallExpression | ts.NewExpression>node).typeArguments === undefined &&
+            getGenericSignature(<ts.CallExpression | ts.NewExpression>node) !== undefined;
+    }
+
+    /** Returns the generic signature of the declaration a call or `new` expression resolves to. */
+    function getGenericSignature(node: ts.CallExpression | ts.NewExpression): ts.Signature | undefined {
+        const resolved = checker.getResolvedSignature(node);
+        if (resolved === undefined || resolved.declaration === undefined || !ts.isFunctionLike(resolved.declaration))
+            return;
+        const signature = checker.getSignatureFromDeclaration(<ts.SignatureDeclaration>resolved.declaration);
+        return signature === undefined || signature.typeParameters === undefined ? undefined : signature;
+    }
+
+    /**
+     * Infers the type arguments of a call from its arguments like the compiler does for simple cases.
+     * Returns `undefined` if a parameter uses the type parameters in a way that is not handled here.
+     */
+    function inferTypeArguments(
+        signature: ts.Signature,
+        typeParameters: ReadonlyArray<ts.TypeParameter>,
+        args: ReadonlyArray<ts.Expression>,
+    ): Array<ts.Type | undefined> | undefined {
+        const candidates = typeParameters.map((): ts.Type[] => []);
+        const {parameters} = signature;
+        for (let i = 0; i < args.length; ++i) {
+            let parameterType: ts.Type | undefined;
+            if (i < parameters.length - 1 || i === parameters.length - 1 && !isRestParameter(parameters[i])) {
+                parameterType = checker.getTypeOfSymbolAtLocation(parameters[i], args[i]);
+            } else if (parameters.length !== 0 && isRestParameter(parameters[parameters.length - 1])) {
+                parameterType = checker.getTypeOfSymbolAtLocation(parameters[parameters.length - 1], args[i]).getNumberIndexType();
+            }
+            if (parameterType === undefined || !infer(parameterType, checker.getTypeAtLocation(args[i])))
+                return;
+        }
+        return candidates.map((types, i) => {
+            const typeParameter = typeParameters[i];
+            if (types.length === 0)
+                return getDefaultType(typeParameter);
+            // literal types are widened unless the type parameter is constrained to primitives or is the return type
+            if (!hasPrimitiveConstraint(typeParameter) && !isTypeAtTopLevel(signature.getReturnType(), typeParameter))
+                types = types.map((t) => checker.getBaseTypeOfLiteralType(t));
+            return types.every((t) => typesAreEqual(t, types[0])) ? types[0] : undefined;
+        });
+
+        function infer(parameterType: ts.Type, argumentType: ts.Type): boolean {
+            const index = typeParameters.indexOf(<ts.TypeParameter>parameterType);
+            if (index !== -1) {
+                candidates[index].push(argumentType);
+                return true;
+            }
+            if (isUnionType(parameterType)) {
+                const types = parameterType.types.filter((t) => !isTypeFlagSet(t, ts.TypeFlags.Null | ts.TypeFlags.Undefined));
+                if (types.length === 1)
+                    return infer(types[0], argumentType);
+                // e.g. `S | (() => S)` is inferred from the naked type parameter if the argument is not a function
+                const naked = types.filter((t) => typeParameters.indexOf(<ts.TypeParameter>t) !== -1);
+                return naked.length === 1 && !isUnionType(argumentType) && argumentType.getCallSignatures().length === 0 &&
+                    infer(naked[0], argumentType);
+            }
+            if (isTypeReference(parameterType)) {
+                const parameterArguments = parameterType.typeArguments === undefined ? [] : parameterType.typeArguments;
+                if (isTypeReference(argumentType) && argumentType.target === parameterType.target) {
+                    const argumentArguments = argumentType.typeArguments === undefined ? [] : argumentType.typeArguments;
+                    return parameterArguments.length === argumentArguments.length &&
+                        parameterArguments.every((t, i) => infer(t, argumentArguments[i]));
+                }
+                // arrays passed to `ReadonlyArray<T>` or `Iterable<T>`
+                const elementType = argumentType.getNumberIndexType();
+                return parameterArguments.length === 1 && elementType !== undefined && isArrayLikeTypeName(parameterType.target.symbol) &&
+                    infer(parameterArguments[0], elementType);
+            }
+            // types without type parameters don't contribute to inference
+            return !isTypeFlagSet(parameterType, ts.TypeFlags.Object | ts.TypeFlags.Intersection | ts.TypeFlags.Instantiable);
+        }
+    }
+
+    function getDefaultType(typeParameter: ts.TypeParameter): ts.Type | undefined {
+        const declaration = <ts.TypeParameterDeclaration | undefined>typeParameter.symbol.declarations![0];
+        return declaration === undefined || declaration.default === undefined
+            ? undefined
+            : checker.getTypeFromTypeNode(declaration.default);
+    }
+
+    function hasPrimitiveConstraint(typeParameter: ts.TypeParameter): boolean {
+        const declaration = <ts.TypeParameterDeclaration | undefined>typeParameter.symbol.declarations![0];
+        return declaration !== undefined && declaration.constraint !== undefined && containsTypeWithFlag(
+            checker.getTypeFromTypeNode(declaration.constraint),
+            ts.TypeFlags.StringLike | ts.TypeFlags.NumberLike | ts.TypeFlags.BooleanLike |
+                ts.TypeFlags.ESSymbolLike | ts.TypeFlags.BigIntLike,
+        );
     }
 
     function fail(type: ts.TypeNode) {
         ctx.addFailure(type.pos - 1, type.end, FAIL_MESSAGE, Lint.Replacement.deleteFromTo(type.pos - 1, type.end));
     }
 
-    // TODO this could use a little more effort
     function typesAreEqual(a: ts.Type, b: ts.Type): boolean {
-        return a === b || checker.typeToString(a, undefined, formatFlags) === checker.typeToString(b, undefined, formatFlags);
+        return isTypeIdenticalTo(checker, a, b, ctx.sourceFile);
     }
 
     function getContextualTypeOfFunction(func: FunctionExpressionLike): ts.Type | undefined {
@@ -353,10 +811,103 @@ function getMinArguments(parameters: ReadonlyArray<ts.ParameterDeclaration>): nu
     return minArguments;
 }
 
+/** The type of object and array literals depends on the contextual type provided by the annotation. */
+function isLiteralExpression(node: ts.Expression): boolean {
+    node = skipParentheses(node);
+    return node.kind === ts.SyntaxKind.ObjectLiteralExpression || node.kind === ts.SyntaxKind.ArrayLiteralExpression;
+}
+
+function isLiteralValue(node: ts.Expression): boolean {
+    switch (node.kind) {
+        case ts.SyntaxKind.StringLiteral:
+        case ts.SyntaxKind.NumericLiteral:
+        case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+        case ts.SyntaxKind.TrueKeyword:
+        case ts.SyntaxKind.FalseKeyword:
+            return true;
+        case ts.SyntaxKind.PrefixUnaryExpression:
+            return (<ts.PrefixUnaryExpression>node).operator === ts.SyntaxKind.MinusToken &&
+                (<ts.PrefixUnaryExpression>node).operand.kind === ts.SyntaxKind.NumericLiteral;
+        default:
+            return false;
+    }
+}
+
+/** The type of these expressions depends on their contextual type. */
+function isContextSensitiveExpression(node: ts.Expression): boolean {
+    node = skipParentheses(node);
+    switch (node.kind) {
+        case ts.SyntaxKind.ArrowFunction:
+        case ts.SyntaxKind.FunctionExpression:
+        case ts.SyntaxKind.ObjectLiteralExpression:
+        case ts.SyntaxKind.ArrayLiteralExpression:
+        case ts.SyntaxKind.ConditionalExpression:
+            return true;
+        default:
+            return false;
+    }
+}
+
+function isInitializerOfAnnotatedVariable(node: ts.Expression): boolean {
+    let parent = node.parent!;
+    while (parent.kind === ts.SyntaxKind.ParenthesizedExpression)
+        parent = parent.parent!;
+    return parent.kind === ts.SyntaxKind.VariableDeclaration && (<ts.VariableDeclaration>parent).type !== undefined &&
+        (<ts.VariableDeclaration>parent).name.kind === ts.SyntaxKind.Identifier;
+}
+
+function isRestParameter(parameter: ts.Symbol): boolean {
+    const declaration = <ts.ParameterDeclaration | undefined>parameter.valueDeclaration;
+    return declaration !== undefined && declaration.dotDotDotToken !== undefined;
+}
+
+function isTypeAtTopLevel(type: ts.Type, target: ts.Type): boolean {
+    return type === target || isUnionType(type) && type.types.some((t) => isTypeAtTopLevel(t, target));
+}
+
+function isArrayLikeTypeName(symbol: ts.Symbol): boolean {
+    switch (symbol.escapedName) {
+        case 'Array':
+        case 'ReadonlyArray':
+        case 'Iterable':
+            return true;
+        default:
+            return false;
+    }
+}
+
+function skipParenthesesAndAssertions(node: ts.Expression): ts.Expression {
+    while (node.kind === ts.SyntaxKind.ParenthesizedExpression || node.kind === ts.SyntaxKind.TypeAssertionExpression ||
+           node.kind === ts.SyntaxKind.AsExpression)
+        node = (<ts.ParenthesizedExpression | ts.AssertionExpression>node).expression;
+    return node;
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+    while (node.kind === ts.SyntaxKind.ParenthesizedExpression)
+        node = (<ts.ParenthesizedExpression>node).expression;
+    return node;
+}
+
 function containsTypeWithFlag(type: ts.Type, flag: ts.TypeFlags): boolean {
     return isUnionType(type) ? type.types.some((t) => isTypeFlagSet(t, flag)) : isTypeFlagSet(type, flag);
 }
 
+/** Checks if the signature can be called with `count` arguments. Signatures without declaration accept every number of arguments. */
+function acceptsArgumentCount(signature: ts.Signature, count: number): boolean {
+    const {declaration} = signature;
+    if (declaration === undefined || declaration.kind === ts.SyntaxKind.JSDocSignature)
+        return true;
+    const parameters = parametersExceptThis((<ts.SignatureDeclaration>declaration).parameters);
+    let minCount = 0;
+    parameters.forEach((parameter, i) => {
+        if (parameter.questionToken === undefined && parameter.initializer === undefined && parameter.dotDotDotToken === undefined)
+            minCount = i + 1;
+    });
+    return count >= minCount &&
+        (count <= parameters.length || parameters.length !== 0 && parameters[parameters.length - 1].dotDotDotToken !== undefined);
+}
+
 function parametersExceptThis(parameters: ReadonlyArray<ts.ParameterDeclaration>) {
     return parameters.length !== 0 && isThisParameter(parameters[0]) ? parameters.slice(1) : parameters;
 }
@@ -0,0 +1,294 @@
+import * as ts from 'typescript';
+import * as Lint from 'tslint';
+import { forEachComment } from 'tsutils';
+
+import { Rule as ConstParametersRule } from './constParametersRule';
+import { Rule as EarlyExitRule } from './earlyExitRule';
+import { Rule as ExtCurlyRule } from './extCurlyRule';
+import { Rule as NamingConventionRule } from './namingConventionRule';
+import { Rule as NoAccessorRecursionRule } from './noAccessorRecursionRule';
+import { Rule as NoAsTypeAssertionRule } from './noAsTypeAssertionRule';
+import { Rule as NoCollapsibleIfRule } from './noCollapsibleIfRule';
+import { Rule as NoElseAfterReturnRule } from './noElseAfterReturnRule';
+import { Rule as NoReturnUndefinedRule } from './noReturnUndefinedRule';
+import { Rule as NoStaticThisRule } from './noStaticThisRule';
+import { Rule as NoUnnecessaryElseRule } from './noUnnecessaryElseRule';
+import { Rule as NoUnnecessaryTypeAnnotationRule } from './noUnnecessaryTypeAnnotationRule';
+import { Rule as NoUnusedRule } from './noUnusedRule';
+import { Rule as NoVarBeforeReturnRule } from './noVarBeforeReturnRule';
+import { Rule as ObjectShorthandPropertiesFirstRule } from './objectShorthandPropertiesFirstRule';
+import { Rule as OddnessCheckRule } from './oddnessCheckRule';
+import { Rule as ParameterPropertiesRule } from './parameterPropertiesRule';
+import { Rule as PreferConstEnumRule } from './preferConstEnumRule';
+import { Rule as PreferWhileRule } from './preferWhileRule';
+
+const TSLINT_COMMENT = /^\s*tslint:(enable|disable)(?:-(line|next-line))?(:|\s|$)/;
+const WOTAN_COMMENT = /^\s*wotan-(enable|disable)(?:-(line|next-line))?(\s|$)/;
+// rules of this package are available with this prefix in Wotan
+const WOTAN_PREFIX = 'tcc/';
+const OPTION_CHECK_WOTAN = 'check-wotan';
+
+type RuleConstructor = new (options: Lint.IOptions) => Lint.IRule;
+
+// test/noUnusedDisableRules.ts makes sure every rule of this package is listed here
+export const RULES: ReadonlyMap<string, RuleConstructor> = new Map<string, RuleConstructor>([
+    ['const-parameters', ConstParametersRule],
+    ['early-exit', EarlyExitRule],
+    ['ext-curly', ExtCurlyRule],
+    ['naming-convention', NamingConventionRule],
+    ['no-accessor-recursion', NoAccessorRecursionRule],
+    ['no-as-type-assertion', NoAsTypeAssertionRule],
+    ['no-collapsible-if', NoCollapsibleIfRule],
+    ['no-else-after-return', NoElseAfterReturnRule],
+    ['no-return-undefined', NoReturnUndefinedRule],
+    ['no-static-this', NoStaticThisRule],
+    ['no-unnecessary-else', NoUnnecessaryElseRule],
+    ['no-unnecessary-type-annotation', NoUnnecessaryTypeAnnotationRule],
+    ['no-unused', NoUnusedRule],
+    ['no-var-before-return', NoVarBeforeReturnRule],
+    ['object-shorthand-properties-first', ObjectShorthandPropertiesFirstRule],
+    ['oddness-check', OddnessCheckRule],
+    ['parameter-properties', ParameterPropertiesRule],
+    ['prefer-const-enum', PreferConstEnumRule],
+    ['prefer-while', PreferWhileRule],
+]);
+
+export class Rule extends Lint.Rules.AbstractRule {
+    public apply(sourceFile: ts.SourceFile): Lint.RuleFailure[] {
+        return this.applyWithFunction(sourceFile, walk, this._getOptions(), undefined);
+    }
+
+    // typed rules can only be checked if type information is available
+    public applyWithProgram(sourceFile: ts.SourceFile, program: ts.Program): Lint.RuleFailure[] {
+        return this.applyWithFunction(sourceFile, walk, this._getOptions(), program);
+    }
+
+    private _getOptions(): IOptions {
+        return {
+            checkWotan: this.ruleArguments.indexOf(OPTION_CHECK_WOTAN) !== -1,
+        };
+    }
+}
+
+interface IOptions {
+    /** Wotan's configuration is not known, so its comments are only checked with the options from `tslint.json` if enabled. */
+    checkWotan: boolean;
+}
+
+interface IRuleReference {
+    /** The name as written in the comment. */
+    text: string;
+    /** The name of the rule in this package. */
+    ruleName: string | undefined;
+    pos: number;
+    end: number;
+}
+
+interface ISwitchComment {
+    comment: ts.CommentRange;
+    isEnable: boolean;
+    isWotan: boolean;
+    modifier: string | undefined;
+    /** Empty if all rules are switched. */
+    rules: IRuleReference[];
+}
+
+function walk(ctx: Lint.WalkContext<IOptions>, program: ts.Program | undefined) {
+    const {sourceFile} = ctx;
+    const comments = collectSwitchComments(sourceFile);
+    if (comments.length === 0)
+        return;
+    let configuration: Lint.Configuration.IConfigurationFile | undefined;
+    const failures = new Map<string, Lint.RuleFailure[] | undefined>();
+    const getFailures = (ruleName: string) => {
+        if (!failures.has(ruleName)) {
+            if (configuration === undefined)
+                configuration = loadConfiguration(sourceFile);
+            failures.set(ruleName, getRuleFailures(ruleName, sourceFile, program, configuration));
+        }
+        return failures.get(ruleName);
+    };
+    for (const comment of comments) {
+        if (comment.isEnable || comment.isWotan && !ctx.options.checkWotan)
+            continue;
+        const unnecessary = comment.rules.filter(({ruleName}) => {
+            if (ruleName === undefined || ruleName === ctx.ruleName)
+                return false;
+            const ruleFailures = getFailures(ruleName);
+            if (ruleFailures === undefined)
+                return false; // the rule is not configured for this file
+            const range = getDisabledRange(comment, ruleName, comments, sourceFile);
+            return range !== undefined && !ruleFailures.some((failure) => {
+                const start = failure.getStartPosition().getPosition();
+                const end = failure.getEndPosition().getPosition();
+                return end >= range.pos && (range.end === -1 || start < range.end);
+            });
+        });
+        if (unnecessary.length === 0)
+            continue;
+        const fix = unnecessary.length === comment.rules.length
+            ? deleteComment(comment.comment, sourceFile)
+            : removeRules(comment.rules, unnecessary);
+        for (const rule of unnecessary)
+            ctx.addFailure(
+                rule.pos,
+                rule.end,
+                `Disabling '${rule.text}' is unnecessary, because it suppresses no failure.`,
+                rule === unnecessary[0] ? fix : undefined,
+            );
+    }
+}
+
+/** Parses all 'tslint:enable' / 'tslint:disable' and 'wotan-enable' / 'wotan-disable' comments of the file. */
+function collectSwitchComments(sourceFile: ts.SourceFile): ISwitchComment[] {
+    const result: ISwitchComment[] = [];
+    forEachComment(sourceFile, (fullText, comment) => {
+        const start = comment.pos + 2;
+        const text = fullText.substring(start, comment.kind === ts.SyntaxKind.SingleLineCommentTrivia ? comment.end : comment.end - 2);
+        let isWotan = false;
+        let match = TSLINT_COMMENT.exec(text);
+        if (match === null) { // tslint:disable-line:no-null-keyword
+            match = WOTAN_COMMENT.exec(text);
+            if (match === null) // tslint:disable-line:no-null-keyword
+                return;
+            isWotan = true;
+        }
+        const rules: IRuleReference[] = [];
+        const re = isWotan ? /[^\s,]+/g : /\S+/g;
+        const list = text.substr(match[0].length);
+        for (let name = re.exec(list); name !== null; name = re.exec(list)) { // tslint:disable-line:no-null-keyword
+            const pos = start + match[0].length + name.index;
+            rules.push({pos, text: name[0], ruleName: getRuleName(name[0], isWotan), end: pos + name[0].length});
+        }
+        // tslint ignores comments with an explicit separator, but without rules
+        if (rules.length === 0 && match[3] === ':')
+            return;
+        result.push({comment, rules, isWotan, isEnable: match[1] === 'enable', modifier: match[2]});
+    });
+    return result;
+}
+
+function getRuleName(name: string, isWotan: boolean): string | undefined {
+    if (isWotan) {
+        if (!name.startsWith(WOTAN_PREFIX))
+            return;
+        name = name.substr(WOTAN_PREFIX.length);
+    }
+    return RULES.has(name) ? name : undefined;
+}
+
+/** Returns the range in which the rule is disabled by the comment. An `end` of -1 means until the end of the file. */
+function getDisabledRange(
+    comment: ISwitchComment,
+    ruleName: string,
+    comments: ISwitchComment[],
+    sourceFile: ts.SourceFile,
+): ts.TextRange | undefined {
+    const lineStarts = sourceFile.getLineStarts();
+    const line = ts.getLineAndCharacterOfPosition(sourceFile, comment.comment.pos).line;
+    const getLineStart = (l: number) => l < lineStarts.length ? lineStarts[l] : -1;
+    switch (comment.modifier) {
+        case 'line':
+            return {pos: lineStarts[line], end: getLineStart(line + 1)};
+        case 'next-line':
+            const pos = getLineStart(line + 1);
+            return pos === -1 ? undefined : {pos, end: getLineStart(line + 2)};
+    }
+    // disabled until the next comment that enables this rule
+    for (const other of comments)
+        if (other.comment.pos > comment.comment.pos && other.isEnable && other.isWotan === comment.isWotan &&
+            other.modifier === undefined && (other.rules.length === 0 || other.rules.some((rule) => rule.ruleName === ruleName)))
+            return {pos: comment.comment.pos, end: other.comment.pos};
+    return {pos: comment.comment.pos, end: -1};
+}
+
+/** Runs the rule with the options configured for this file. Returns `undefined` if the rule is not enabled or cannot run. */
+function getRuleFailures(
+    ruleName: string,
+    sourceFile: ts.SourceFile,
+    program: ts.Program | undefined,
+    configuration: Lint.Configuration.IConfigurationFile,
+): Lint.RuleFailure[] | undefined {
+    const options = getRuleOptions(ruleName, sourceFile, configuration);
+    if (options === undefined)
+        return;
+    const rule = new (RULES.get(ruleName)!)({
+        ruleName,
+        ruleArguments: options.ruleArguments || [],
+        ruleSeverity: options.ruleSeverity || 'error',
+        disabledIntervals: [],
+    });
+    if (!rule.isEnabled())
+        return;
+    if (program !== undefined && Lint.isTypedRule(rule))
+        return rule.applyWithProgram(sourceFile, program);
+    // a TypedRule without type information would not find anything
+    return rule instanceof Lint.Rules.TypedRule ? undefined : rule.apply(sourceFile);
+}
+
+interface ICachedConfiguration {
+    modified: number | undefined;
+    configuration: Lint.Configuration.IConfigurationFile;
+}
+
+const configurationCache = new Map<string, ICachedConfiguration>();
+
+/** Loads the nearest `tslint.json`. Returns an empty configuration if there is none. */
+function loadConfiguration(sourceFile: ts.SourceFile): Lint.Configuration.IConfigurationFile {
+    const path = Lint.Configuration.findConfigurationPath(null, sourceFile.fileName); // tslint:disable-line:no-null-keyword
+    if (path === undefined)
+        return Lint.Configuration.EMPTY_CONFIG;
+    // the configuration is loaded again when the file changes, so that changes are picked up by long running processes like editors
+    const modified = getModifiedTime(path);
+    let cached = configurationCache.get(path);
+    if (cached === undefined || cached.modified !== modified) {
+        cached = {modified, configuration: Lint.Configuration.loadConfigurationFromPath(path)};
+        configurationCache.set(path, cached);
+    }
+    return cached.configuration;
+}
+
+function getModifiedTime(path: string): number | undefined {
+    const date = ts.sys.getModifiedTime === undefined ? undefined : ts.sys.getModifiedTime(path);
+    return date === undefined ? undefined : date.getTime();
+}
+
+function getRuleOptions(
+    ruleName: string,
+    sourceFile: ts.SourceFile,
+    configuration: Lint.Configuration.IConfigurationFile,
+): Partial<Lint.IOptions> | undefined {
+    const rules = /\.jsx?$/.test(sourceFile.fileName) ? configuration.jsRules : configuration.rules;
+    const options = rules.get(ruleName);
+    return options === undefined || options.ruleSeverity === 'off' ? undefined : options;
+}
+
+/** Deletes the comment and the whole line if nothing else remains. */
+function deleteComment(comment: ts.CommentRange, sourceFile: ts.SourceFile): Lint.Replacement {
+    const text = sourceFile.text;
+    const lineStart = text.lastIndexOf('\n', comment.pos - 1) + 1;
+    const before = /[ \t]*$/.exec(text.slice(lineStart, comment.pos))![0];
+    const after = /^[ \t]*(?:\r?\n|$)/.exec(text.slice(comment.end));
+    if (before.length === comment.pos - lineStart && after !== null)
+        return Lint.Replacement.deleteFromTo(lineStart, comment.end + after[0].length);
+    return Lint.Replacement.deleteFromTo(comment.pos - before.length, comment.end);
+}
+
+/** Removes the names from the list including the separators. At least one name must remain. */
+function removeRules(rules: IRuleReference[], removed: IRuleReference[]): Lint.Replacement[] {
+    const result = [];
+    for (let i = 0; i < rules.length; ++i) {
+        if (removed.indexOf(rules[i]) === -1)
+            continue;
+        let last = i;
+        while (last + 1 < rules.length && removed.indexOf(rules[last + 1]) !== -1)
+            ++last;
+        result.push(
+            last + 1 < rules.length
+                ? Lint.Replacement.deleteFromTo(rules[i].pos, rules[last + 1].pos)
+                : Lint.Replacement.deleteFromTo(rules[i - 1].end, rules[last].end),
+        );
+        i = last;
+    }
+    return result;
+}
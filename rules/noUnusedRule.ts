@@ -2,33 +2,127 @@ import * as ts from 'typescript';
 import * as Lint from 'tslint';
 import {
     isParameterDeclaration, isParameterProperty, isFunctionWithBody, isExpressionValueUsed,
-    collectVariableUsage, VariableInfo, VariableUse, UsageDomain, isAssignmentKind,
+    collectVariableUsage, VariableInfo, VariableUse, UsageDomain, isAssignmentKind, findImports, ImportKind,
+    isImportDeclaration, isExportSpecifier, isExportAssignment, isIdentifier, isClassLikeDeclaration, hasModifier,
+    isConstructorDeclaration, isPropertyAccessExpression, isElementAccessExpression, isTextualLiteral, isStatementInAmbientContext,
+    isCallExpression, getChildOfKind, unionTypeParts, isThisParameter, isFunctionScopeBoundary, getControlFlowEnd, isTypeFlagSet,
+    getPropertyName,
 } from 'tsutils';
 
+import { globToRegExp } from '../src/utils';
+
 const OPTION_FUNCTION_EXPRESSION_NAME = 'unused-function-expression-name';
 const OPTION_CLASS_EXPRESSION_NAME = 'unused-class-expression-name';
 const OPTION_CATCH_BINDING = 'unused-catch-binding';
 const OPTION_IGNORE_PARAMETERS = 'ignore-parameters';
 const OPTION_IGNORE_IMPORTS = 'ignore-imports';
+const OPTION_CHECK_EXPORTS = 'check-exports';
+const OPTION_ENTRY_POINTS = 'entry-points';
+const OPTION_IGNORE_PATTERN = 'ignore-pattern';
+const OPTION_CHECK_PARAMETERS = 'check-parameters';
+const OPTION_JSX = 'jsx';
+const OPTION_CHECK_MEMBERS = 'check-members';
+
+const DEFAULT_IGNORE_PATTERN = /^_/;
+
+// ts.JsxEmit.ReactJSX and ts.JsxEmit.ReactJSXDev, added in typescript@4.1
+const JSX_EMIT_REACT_JSX = 4;
+const JSX_EMIT_REACT_JSX_DEV = 5;
 
 export class Rule extends Lint.Rules.AbstractRule {
     public apply(sourceFile: ts.SourceFile): Lint.RuleFailure[] {
-        return this.applyWithWalker(new UnusedWalker(sourceFile, this.ruleName, {
+        return this.applyWithWalker(new UnusedWalker(sourceFile, this.ruleName, this._getOptions(), undefined));
+    }
+
+    // 'check-exports' needs the whole program, it is ignored if type information is not available
+    public applyWithProgram(sourceFile: ts.SourceFile, program: ts.Program): Lint.RuleFailure[] {
+        return this.applyWithWalker(new UnusedWalker(sourceFile, this.ruleName, this._getOptions(), program));
+    }
+
+    private _getOptions(): IOptions {
+        const objectOptions: IObjectOptions = Object.assign(
+            {},
+            ...this.ruleArguments.filter((option): option is IObjectOptions => typeof option === 'object'),
+        );
+        return {
             functionExpressionName: this.ruleArguments.indexOf(OPTION_FUNCTION_EXPRESSION_NAME) !== -1,
             classExpressionName: this.ruleArguments.indexOf(OPTION_CLASS_EXPRESSION_NAME) !== -1,
-            ignoreParameters: this.ruleArguments.indexOf(OPTION_IGNORE_PARAMETERS) !== -1,
+            checkParameters: this.ruleArguments.indexOf(OPTION_IGNORE_PARAMETERS) !== -1
+                ? CheckParameters.None
+                : objectOptions[OPTION_CHECK_PARAMETERS] || CheckParameters.All,
             ignoreImports: this.ruleArguments.indexOf(OPTION_IGNORE_IMPORTS) !== -1,
             catchBinding: this.ruleArguments.indexOf(OPTION_CATCH_BINDING) !== -1,
-        }));
+            checkExports: this.ruleArguments.indexOf(OPTION_CHECK_EXPORTS) !== -1,
+            checkMembers: this.ruleArguments.indexOf(OPTION_CHECK_MEMBERS) !== -1,
+            entryPoints: (objectOptions[OPTION_ENTRY_POINTS] || []).map(globToRegExp),
+            ignorePattern: parseIgnorePatterns(objectOptions[OPTION_IGNORE_PATTERN] || {}),
+            jsx: objectOptions[OPTION_JSX] || {},
+        };
     }
 }
 
+interface IObjectOptions {
+    [OPTION_ENTRY_POINTS]?: string[];
+    [OPTION_IGNORE_PATTERN]?: IRawIgnorePatterns;
+    [OPTION_CHECK_PARAMETERS]?: CheckParameters;
+    [OPTION_JSX]?: IJsxOptions;
+}
+
+interface IJsxOptions {
+    factory?: string;
+    'fragment-factory'?: string;
+    runtime?: JsxRuntime;
+}
+
+const enum JsxRuntime {
+    Classic = 'classic',
+    Automatic = 'automatic',
+}
+
+const enum CheckParameters {
+    All = 'all',
+    AfterUsed = 'after-used',
+    None = 'none',
+}
+
+/** `false` disables the default pattern. */
+interface IRawIgnorePatterns {
+    parameters?: string | false;
+    variables?: string | false;
+    'caught-errors'?: string | false;
+}
+
+interface IIgnorePatterns {
+    parameters: RegExp | undefined;
+    variables: RegExp | undefined;
+    caughtErrors: RegExp | undefined;
+}
+
 interface IOptions {
     functionExpressionName: boolean;
     classExpressionName: boolean;
-    ignoreParameters: boolean;
+    checkParameters: CheckParameters;
     ignoreImports: boolean;
     catchBinding: boolean;
+    checkExports: boolean;
+    checkMembers: boolean;
+    entryPoints: RegExp[];
+    ignorePattern: IIgnorePatterns;
+    jsx: IJsxOptions;
+}
+
+function parseIgnorePatterns(raw: IRawIgnorePatterns): IIgnorePatterns {
+    return {
+        parameters: parseIgnorePattern(raw.parameters, DEFAULT_IGNORE_PATTERN),
+        variables: parseIgnorePattern(raw.variables, DEFAULT_IGNORE_PATTERN),
+        caughtErrors: parseIgnorePattern(raw['caught-errors'], undefined),
+    };
+}
+
+function parseIgnorePattern(pattern: string | false | undefined, defaultPattern: RegExp | undefined): RegExp | undefined {
+    if (pattern === undefined)
+        return defaultPattern;
+    return pattern === false ? undefined : new RegExp(pattern);
 }
 
 const enum ExpressionKind {
@@ -36,9 +130,39 @@ const enum ExpressionKind {
     Class = 'Class',
 }
 
+const enum MemberKind {
+    Property = 'Property',
+    Method = 'Method',
+    Accessor = 'Accessor',
+    EnumMember = 'EnumMember',
+}
+
+interface IMember {
+    name: ts.Identifier | ts.StringLiteral;
+    kind: MemberKind;
+    read: boolean;
+    written: boolean;
+}
+
 class UnusedWalker extends Lint.AbstractWalker<IOptions> {
+    private _program: ts.Program | undefined;
+    private _jsxFactories: Set<string> | undefined = undefined;
+
+    constructor(sourceFile: ts.SourceFile, ruleName: string, options: IOptions, program: ts.Program | undefined) {
+        super(sourceFile, ruleName, options);
+        this._program = program;
+    }
+
     public walk(sourceFile: ts.SourceFile) {
+        if (this.options.checkExports && this._program !== undefined)
+            this._checkExports(this._program);
         const usage = collectVariableUsage(sourceFile);
+        // failures are added after all unused names are known, because fixes may remove multiple names at once
+        const failures: Array<{identifier: ts.Identifier, variable: VariableInfo, error: string}> = [];
+        const removable = new Set<ts.Identifier>();
+        // declarations that are never executed and local declarations that may only be used by those
+        const unused = new Set<ts.Identifier>();
+        const candidates = new Map<ts.Identifier, VariableUse[]>();
         usage.forEach((variable, identifier) => {
             if (isExcluded(variable, sourceFile, usage, this.options))
                 return;
@@ -53,26 +177,318 @@ class UnusedWalker extends Lint.AbstractWalker<IOptions> {
                     return;
             }
             if (variable.uses.length === 0) {
-                if (identifier.text === 'React' && this.sourceFile.languageVariant === ts.LanguageVariant.JSX &&
-                    isImportFromExternal(identifier) && containsJsx(this.sourceFile))
-                    return; // special case for 'React' import implicitly used by JSX
-                return this._fail(identifier, 'unused');
+                if (this._isUsedByJsx(identifier))
+                    return; // special case for the import of the JSX factory, e.g. 'React'
+                removable.add(identifier);
+                unused.add(identifier);
+                return failures.push({identifier, variable, error: 'unused'});
             }
             let uses = filterWriteOnly(variable.uses, identifier);
-            if (uses.length === 0)
+            if (uses.length === 0) {
+                unused.add(identifier);
                 return this._fail(identifier, 'only written and never read');
+            }
             const filtered = uses.length !== variable.uses.length;
             uses = filterUsesInDeclaration(uses, variable.declarations);
-            if (uses.length === 0)
-                return this._fail(identifier, `only ${filtered ? 'written or ' : ''}used inside of its declaration`);
-            // TODO error for classes / functions only used mutually recursive
+            if (uses.length === 0) {
+                // removing a declaration also removes the uses inside of it
+                if (!filtered && isRemovableDeclaration(identifier.parent!))
+                    removable.add(identifier);
+                unused.add(identifier);
+                return failures.push({identifier, variable, error: `only ${filtered ? 'written or ' : ''}used inside of its declaration`});
+            }
+            this._checkDeadStores(identifier, variable);
+            if (isLocalDeclaration(variable))
+                candidates.set(identifier, uses);
+        });
+        const unreachable = findUnreachable(candidates, unused, usage);
+        unreachable.forEach((_users, identifier) => {
+            failures.push({identifier, variable: usage.get(identifier)!, error: 'only used inside of unused declarations'});
+        });
+        getRemovableUnreachable(unreachable, removable, usage).forEach((identifier) => removable.add(identifier));
+        for (const {identifier, variable, error} of failures)
+            this._fail(
+                identifier,
+                error,
+                removable.has(identifier) ? this._getRemovalFix(identifier, variable, removable, usage) : undefined,
+            );
+
+        if (!sourceFile.isDeclarationFile) {
+            const cb = (node: ts.Node): void => {
+                if (isClassLikeDeclaration(node))
+                    this._checkPrivateMembers(node);
+                return ts.forEachChild(node, cb);
+            };
+            ts.forEachChild(sourceFile, cb);
+            if (this.options.checkMembers && this._program !== undefined)
+                this._checkTypeMembers(usage, this._program.getTypeChecker());
+        }
+    }
+
+    private _checkDeadStores(identifier: ts.Identifier, variable: VariableInfo) {
+        for (const {name, end} of findDeadStores(identifier, variable))
+            this.addFailureAtNode(
+                name,
+                `${showKind(identifier)} '${identifier.text}' is ${end === undefined
+                    ? 'assigned a value that is never read'
+                    : `overwritten in line ${ts.getLineAndCharacterOfPosition(this.sourceFile, end.getStart(this.sourceFile)).line + 1} ` +
+                      'before the assigned value is read'}.`,
+            );
+    }
+
+    /** Private members can only be accessed inside of the class body, so their uses can be found without type information. */
+    private _checkPrivateMembers(node: ts.ClassLikeDeclaration) {
+        if (node.kind === ts.SyntaxKind.ClassDeclaration && isStatementInAmbientContext(node))
+            return;
+        const members = collectPrivateMembers(node);
+        if (members.size === 0)
+            return;
+        let dynamicAccess = false;
+        const cb = (child: ts.Node): void => {
+            const destructured = getMembersDestructuredFromThis(child);
+            if (destructured !== undefined) {
+                for (const destructuredName of destructured) {
+                    if (destructuredName === undefined) {
+                        dynamicAccess = true; // the rest element copies every property
+                        continue;
+                    }
+                    const destructuredMember = members.get(destructuredName);
+                    if (destructuredMember !== undefined)
+                        destructuredMember.read = true;
+                }
+            }
+            let name: string | undefined;
+            if (isPropertyAccessExpression(child)) {
+                name = child.name.text;
+            } else if (isElementAccessExpression(child)) {
+                if (child.argumentExpression !== undefined && isTextualLiteral(child.argumentExpression)) {
+                    name = child.argumentExpression.text;
+                } else if (child.expression.kind === ts.SyntaxKind.ThisKeyword) {
+                    dynamicAccess = true; // this[key] could access every member
+                }
+            }
+            const member = name === undefined ? undefined : members.get(name);
+            if (member !== undefined) {
+                const access = <ts.PropertyAccessExpression | ts.ElementAccessExpression>child;
+                if (member.kind !== MemberKind.Property ||
+                    isExpressionValueUsed(access) && !isUpdate(access, (target) => isSameMemberAccess(target, name!))) {
+                    member.read = true;
+                } else {
+                    member.written = true;
+                }
+            }
+            return ts.forEachChild(child, cb);
+        };
+        for (const member of node.members)
+            cb(member);
+        if (dynamicAccess)
+            return;
+        members.forEach((member) => {
+            if (!member.read)
+                this.addFailureAtNode(
+                    member.name,
+                    `${member.kind} '${member.name.text}' is ${member.written ? 'only written and never read' : 'unused'}.`,
+                );
+        });
+    }
+
+    /** Members of local enums, interfaces and type aliases can only be accessed in this file. */
+    private _checkTypeMembers(usage: Map<ts.Identifier, VariableInfo>, checker: ts.TypeChecker) {
+        const members = new Map<ts.Symbol, IMember>();
+        // the member symbols of each checked type
+        const types = new Map<ts.Symbol, ts.Symbol[]>();
+        usage.forEach((variable, identifier) => {
+            if (variable.exported || variable.inGlobalScope ||
+                !variable.declarations.every((declaration) => isCheckedTypeDeclaration(declaration.parent!)))
+                return;
+            const symbol = checker.getSymbolAtLocation(identifier);
+            if (symbol === undefined)
+                return;
+            const memberSymbols: ts.Symbol[] = [];
+            for (const declaration of variable.declarations) {
+                for (const {name, kind} of getTypeMembers(declaration.parent!)) {
+                    const memberSymbol = checker.getSymbolAtLocation(name);
+                    if (memberSymbol !== undefined && !members.has(memberSymbol)) { // overloads are a single member
+                        members.set(memberSymbol, {name, kind, read: false, written: false});
+                        memberSymbols.push(memberSymbol);
+                    }
+                }
+            }
+            types.set(symbol, memberSymbols);
+        });
+        if (members.size === 0)
+            return;
+
+        const markRead = (symbol: ts.Symbol | undefined, written = false) => {
+            if (symbol === undefined)
+                return;
+            for (const root of checker.getRootSymbols(symbol)) {
+                const member = members.get(root);
+                if (member === undefined)
+                    continue;
+                if (written && member.kind === MemberKind.Property) {
+                    member.written = true;
+                } else {
+                    member.read = true;
+                }
+            }
+        };
+        const markAllRead = (type: ts.Type) => {
+            for (const t of unionTypeParts(type))
+                for (const property of t.getProperties())
+                    markRead(property);
+        };
+        const cb = (node: ts.Node): void => {
+            switch (node.kind) {
+                case ts.SyntaxKind.Identifier: {
+                    const parent = node.parent!;
+                    if (isDeclarationName(<ts.Identifier>node))
+                        break;
+                    const symbol = checker.getSymbolAtLocation(node);
+                    if (symbol === undefined)
+                        break;
+                    const memberSymbols = types.get(symbol);
+                    if (memberSymbols !== undefined) {
+                        // e.g. 'keyof T' or 'Object.keys(Enum)' could use every member
+                        if (!isAccessOfSingleMember(<ts.Identifier>node))
+                            for (const memberSymbol of memberSymbols)
+                                markRead(memberSymbol);
+                    } else if (isPropertyAccessExpression(parent) && parent.name === node) {
+                        markRead(symbol, !isExpressionValueUsed(parent));
+                    } else {
+                        markRead(symbol);
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.ElementAccessExpression: {
+                    const {argumentExpression} = <ts.ElementAccessExpression>node;
+                    if (argumentExpression !== undefined && isTextualLiteral(argumentExpression))
+                        markRead(checker.getSymbolAtLocation(argumentExpression), !isExpressionValueUsed(<ts.ElementAccessExpression>node));
+                    break;
+                }
+                case ts.SyntaxKind.IndexedAccessType: {
+                    const {objectType, indexType} = <ts.IndexedAccessTypeNode>node;
+                    if (indexType.kind === ts.SyntaxKind.LiteralType && isTextualLiteral((<ts.LiteralTypeNode>indexType).literal)) {
+                        const name = (<ts.StringLiteral>(<ts.LiteralTypeNode>indexType).literal).text;
+                        for (const t of unionTypeParts(checker.getTypeFromTypeNode(objectType)))
+                            markRead(t.getProperty(name));
+                    } else {
+                        markAllRead(checker.getTypeFromTypeNode(objectType));
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.ObjectBindingPattern: {
+                    const type = checker.getTypeAtLocation(node);
+                    for (const element of (<ts.ObjectBindingPattern>node).elements) {
+                        if (element.dotDotDotToken !== undefined) {
+                            markAllRead(type);
+                            continue;
+                        }
+                        const name = element.propertyName === undefined ? element.name : element.propertyName;
+                        if (name.kind === ts.SyntaxKind.Identifier || isTextualLiteral(name))
+                            for (const t of unionTypeParts(type))
+                                markRead(t.getProperty(name.text));
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.SpreadAssignment:
+                case ts.SyntaxKind.SpreadElement:
+                case ts.SyntaxKind.JsxSpreadAttribute:
+                    markAllRead(
+                        checker.getTypeAtLocation((<ts.SpreadAssignment | ts.SpreadElement | ts.JsxSpreadAttribute>node).expression),
+                    );
+                    break;
+                case ts.SyntaxKind.ForInStatement:
+                    markAllRead(checker.getTypeAtLocation((<ts.ForInStatement>node).expression));
+            }
+            return ts.forEachChild(node, cb);
+        };
+        ts.forEachChild(this.sourceFile, cb);
+        members.forEach((member) => {
+            if (!member.read)
+                this.addFailureAtNode(
+                    member.name,
+                    `${member.kind} '${member.name.text}' is ${member.written ? 'only written and never read' : 'unused'}.`,
+                );
         });
     }
 
-    private _fail(identifier: ts.Identifier, error: string) {
+    private _getRemovalFix(
+        identifier: ts.Identifier,
+        variable: VariableInfo,
+        removable: Set<ts.Identifier>,
+        usage: Map<ts.Identifier, VariableInfo>,
+    ): Lint.Replacement[] | undefined {
+        const parent = identifier.parent!;
+        switch (parent.kind) {
+            case ts.SyntaxKind.ImportClause:
+                return getImportRemovalFix(<ts.ImportDeclaration>parent.parent, identifier, removable, this.sourceFile);
+            case ts.SyntaxKind.NamespaceImport:
+                return getImportRemovalFix(<ts.ImportDeclaration>parent.parent!.parent, identifier, removable, this.sourceFile);
+            case ts.SyntaxKind.ImportSpecifier:
+                return getImportRemovalFix(<ts.ImportDeclaration>parent.parent!.parent!.parent, identifier, removable, this.sourceFile);
+            case ts.SyntaxKind.ImportEqualsDeclaration:
+                return [deleteStatement(parent, this.sourceFile)];
+            case ts.SyntaxKind.VariableDeclaration:
+                return getVariableRemovalFix(<ts.VariableDeclaration>parent, removable, this.sourceFile);
+            case ts.SyntaxKind.Parameter:
+                // the type checker is needed to find out if the function is expected to accept these parameters
+                return this._program === undefined
+                    ? undefined
+                    : getParameterRemovalFix(
+                        <ts.ParameterDeclaration>parent, removable, usage, this._program.getTypeChecker(), this.sourceFile,
+                    );
+            default:
+                // also remove overloads and merged declarations, but only if all of them can be removed
+                if (identifier !== variable.declarations[0] ||
+                    !variable.declarations.every((declaration) => isRemovableDeclaration(declaration.parent!)))
+                    return;
+                if (variable.declarations.every((declaration) => declaration.parent!.kind === ts.SyntaxKind.FunctionDeclaration))
+                    // overloads are adjacent and removed at once to clean up blank lines correctly
+                    return [deleteStatement(parent, this.sourceFile, variable.declarations[variable.declarations.length - 1].parent)];
+                return variable.declarations.map((declaration) => deleteStatement(declaration.parent!, this.sourceFile));
+        }
+    }
+
+    private _checkExports(program: ts.Program) {
+        if (this.sourceFile.isDeclarationFile || isEntryPoint(this.sourceFile, program, this.options.entryPoints))
+            return;
+        const checker = program.getTypeChecker();
+        const moduleSymbol = checker.getSymbolAtLocation(this.sourceFile);
+        if (moduleSymbol === undefined)
+            return; // not a module
+        const usedExports = getUsedExports(program, this.options.entryPoints);
+        for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+            if (symbol.declarations === undefined)
+                continue;
+            // symbols re-exported from other modules are checked where they are declared
+            const declaration = symbol.declarations.find((d) => d.getSourceFile() === this.sourceFile && !isReExport(d));
+            if (declaration === undefined)
+                continue;
+            // local 'export {foo}' and 'export default foo' are used if the local declaration is imported
+            const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+            if (!usedExports.has(target))
+                this.addFailureAtNode(getExportLocation(declaration), `Export '${symbol.name}' is not imported by any other file.`);
+        }
+    }
+
+    private _isUsedByJsx(identifier: ts.Identifier): boolean {
+        if (this.sourceFile.languageVariant !== ts.LanguageVariant.JSX || !isImportFromExternal(identifier))
+            return false;
+        if (this._jsxFactories === undefined)
+            this._jsxFactories = getJsxFactories(
+                this.sourceFile,
+                this.options.jsx,
+                this._program === undefined ? undefined : this._program.getCompilerOptions(),
+            );
+        return this._jsxFactories.has(identifier.text);
+    }
+
+    private _fail(identifier: ts.Identifier, error: string, fix?: Lint.Replacement[]) {
         return this.addFailureAtNode(
             identifier,
             `${showKind(identifier)} '${identifier.text}' is ${error}.`,
+            fix,
         );
     }
 
@@ -85,6 +501,528 @@ class UnusedWalker extends Lint.AbstractWalker<IOptions> {
     }
 }
 
+function isEntryPoint(sourceFile: ts.SourceFile, program: ts.Program, entryPoints: RegExp[]): boolean {
+    let fileName = sourceFile.fileName;
+    const currentDirectory = program.getCurrentDirectory().replace(/\\/g, '/').replace(/\/?$/, '/');
+    if (fileName.startsWith(currentDirectory))
+        fileName = fileName.slice(currentDirectory.length);
+    return entryPoints.some((entryPoint) => entryPoint.test(fileName));
+}
+
+const usedExportsCache = new WeakMap<ts.Program, Map<string, Set<ts.Symbol>>>();
+
+/** Returns the declared symbols of all exports that are imported anywhere in the program or exported by an entry point. */
+function getUsedExports(program: ts.Program, entryPoints: RegExp[]): Set<ts.Symbol> {
+    let cache = usedExportsCache.get(program);
+    if (cache === undefined) {
+        cache = new Map();
+        usedExportsCache.set(program, cache);
+    }
+    const key = entryPoints.join(',');
+    let result = cache.get(key);
+    if (result === undefined) {
+        result = collectUsedExports(program, entryPoints);
+        cache.set(key, result);
+    }
+    return result;
+}
+
+function collectUsedExports(program: ts.Program, entryPoints: RegExp[]): Set<ts.Symbol> {
+    const checker = program.getTypeChecker();
+    const used = new Set<ts.Symbol>();
+    const markUsed = (symbol: ts.Symbol | undefined) => {
+        if (symbol !== undefined)
+            // resolves imports and re-exports through barrel files to the declared symbol
+            used.add(symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol);
+    };
+    const markModuleUsed = (moduleSymbol: ts.Symbol | undefined) => {
+        if (moduleSymbol !== undefined)
+            for (const symbol of checker.getExportsOfModule(moduleSymbol))
+                markUsed(symbol);
+    };
+    for (const sourceFile of program.getSourceFiles()) {
+        if (program.isSourceFileDefaultLibrary(sourceFile) || program.isSourceFileFromExternalLibrary(sourceFile))
+            continue;
+        if (isEntryPoint(sourceFile, program, entryPoints))
+            markModuleUsed(checker.getSymbolAtLocation(sourceFile));
+        for (const specifier of findImports(sourceFile, ImportKind.All)) {
+            const parent = specifier.parent!;
+            if (isImportDeclaration(parent)) {
+                const clause = parent.importClause;
+                if (clause === undefined)
+                    continue; // side effect import
+                if (clause.name !== undefined)
+                    markUsed(checker.getSymbolAtLocation(clause.name));
+                if (clause.namedBindings === undefined)
+                    continue;
+                if (clause.namedBindings.kind === ts.SyntaxKind.NamedImports) {
+                    for (const element of clause.namedBindings.elements)
+                        markUsed(checker.getSymbolAtLocation(element.name));
+                    continue;
+                }
+            } else if (parent.kind === ts.SyntaxKind.ExportDeclaration) {
+                continue; // re-exports only count if they are imported from the re-exporting module or it is an entry point
+            }
+            // namespace import, 'import = require()', 'require()', 'import()' or 'import("...").Foo' could use every export
+            markModuleUsed(checker.getSymbolAtLocation(specifier));
+        }
+    }
+    return used;
+}
+
+function isReExport(declaration: ts.Declaration): boolean {
+    return isExportSpecifier(declaration) && declaration.parent!.parent!.moduleSpecifier !== undefined;
+}
+
+function getExportLocation(declaration: ts.Declaration): ts.Node {
+    if (isExportAssignment(declaration))
+        return declaration.expression;
+    const name = ts.getNameOfDeclaration(declaration);
+    if (name !== undefined)
+        return name;
+    // anonymous 'export default function() {}' or 'export default class {}'
+    return declaration.modifiers!.find((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword) || declaration;
+}
+
+function isCheckedTypeDeclaration(node: ts.Node): boolean {
+    switch (node.kind) {
+        case ts.SyntaxKind.EnumDeclaration:
+        case ts.SyntaxKind.InterfaceDeclaration:
+            break;
+        case ts.SyntaxKind.TypeAliasDeclaration:
+            if ((<ts.TypeAliasDeclaration>node).type.kind !== ts.SyntaxKind.TypeLiteral)
+                return false;
+            break;
+        default:
+            return false;
+    }
+    return !isStatementInAmbientContext(<ts.Statement>node);
+}
+
+function getTypeMembers(node: ts.Node): Array<{name: ts.Identifier | ts.StringLiteral, kind: MemberKind}> {
+    const result: Array<{name: ts.Identifier | ts.StringLiteral, kind: MemberKind}> = [];
+    let members: ReadonlyArray<ts.TypeElement | ts.EnumMember>;
+    switch (node.kind) {
+        case ts.SyntaxKind.EnumDeclaration:
+            members = (<ts.EnumDeclaration>node).members;
+            break;
+        case ts.SyntaxKind.InterfaceDeclaration:
+            members = (<ts.InterfaceDeclaration>node).members;
+            break;
+        default:
+            members = (<ts.TypeLiteralNode>(<ts.TypeAliasDeclaration>node).type).members;
+    }
+    for (const member of members) {
+        const {name} = member;
+        if (name === undefined || name.kind !== ts.SyntaxKind.Identifier && name.kind !== ts.SyntaxKind.StringLiteral)
+            continue;
+        switch (member.kind) {
+            case ts.SyntaxKind.EnumMember:
+                result.push({name, kind: MemberKind.EnumMember});
+                break;
+            case ts.SyntaxKind.PropertySignature:
+                result.push({name, kind: MemberKind.Property});
+                break;
+            case ts.SyntaxKind.MethodSignature:
+                result.push({name, kind: MemberKind.Method});
+        }
+    }
+    return result;
+}
+
+function isDeclarationName(node: ts.Identifier): boolean {
+    const parent = node.parent!;
+    switch (parent.kind) {
+        case ts.SyntaxKind.EnumDeclaration:
+        case ts.SyntaxKind.InterfaceDeclaration:
+        case ts.SyntaxKind.TypeAliasDeclaration:
+        case ts.SyntaxKind.EnumMember:
+        case ts.SyntaxKind.PropertySignature:
+        case ts.SyntaxKind.MethodSignature:
+            return (<ts.NamedDeclaration>parent).name === node;
+        default:
+            return false;
+    }
+}
+
+/** Checks if the reference of an enum, interface or type alias only uses a single member or no member at all. */
+function isAccessOfSingleMember(node: ts.Identifier): boolean {
+    const parent = node.parent!;
+    switch (parent.kind) {
+        case ts.SyntaxKind.PropertyAccessExpression:
+        case ts.SyntaxKind.QualifiedName:
+            return true;
+        case ts.SyntaxKind.ElementAccessExpression:
+            return (<ts.ElementAccessExpression>parent).argumentExpression !== undefined &&
+                isTextualLiteral((<ts.ElementAccessExpression>parent).argumentExpression!);
+        case ts.SyntaxKind.TypeReference:
+            return parent.parent!.kind !== ts.SyntaxKind.TypeOperator && parent.parent!.kind !== ts.SyntaxKind.MappedType;
+        case ts.SyntaxKind.ExpressionWithTypeArguments:
+            // 'interface Foo extends Bar' accesses the members through 'Foo', a class implementing it doesn't
+            return parent.parent!.parent!.kind === ts.SyntaxKind.InterfaceDeclaration;
+        default:
+            return false;
+    }
+}
+
+/** Collects all private members with a simple name. Decorated members are excluded, because they could be used by the decorator. */
+function collectPrivateMembers(node: ts.ClassLikeDeclaration): Map<string, IMember> {
+    const result = new Map<string, IMember>();
+    const add = (name: ts.Identifier, kind: MemberKind) => {
+        if (!result.has(name.text)) // overloads and accessor pairs are a single member
+            result.set(name.text, {name, kind, read: false, written: false});
+    };
+    for (const member of node.members) {
+        if (isConstructorDeclaration(member)) {
+            for (const parameter of member.parameters)
+                if (hasModifier(parameter.modifiers, ts.SyntaxKind.PrivateKeyword) && parameter.decorators === undefined &&
+                    isIdentifier(parameter.name))
+                    add(parameter.name, MemberKind.Property);
+            continue;
+        }
+        if (!hasModifier(member.modifiers, ts.SyntaxKind.PrivateKeyword) || member.decorators !== undefined ||
+            member.name === undefined || !isIdentifier(member.name))
+            continue;
+        switch (member.kind) {
+            case ts.SyntaxKind.PropertyDeclaration:
+                add(member.name, MemberKind.Property);
+                break;
+            case ts.SyntaxKind.MethodDeclaration:
+                add(member.name, MemberKind.Method);
+                break;
+            case ts.SyntaxKind.GetAccessor:
+            case ts.SyntaxKind.SetAccessor:
+                add(member.name, MemberKind.Accessor);
+        }
+    }
+    return result;
+}
+
+// handle this.foo = this.foo + 1;
+function isSameMemberAccess(node: ts.Expression, name: string): boolean {
+    return isPropertyAccessExpression(node) && node.expression.kind === ts.SyntaxKind.ThisKeyword && node.name.text === name;
+}
+
+/**
+ * Returns the names of the properties read by destructuring `this`, e.g. `const {foo} = this` or `({foo} = this)`.
+ * Rest elements are returned as `undefined`, because they read all properties.
+ */
+function getMembersDestructuredFromThis(node: ts.Node): Array<string | undefined> | undefined {
+    switch (node.kind) {
+        case ts.SyntaxKind.VariableDeclaration:
+        case ts.SyntaxKind.Parameter:
+        case ts.SyntaxKind.BindingElement: {
+            const {name, initializer} = <ts.VariableDeclaration | ts.ParameterDeclaration | ts.BindingElement>node;
+            if (name.kind !== ts.SyntaxKind.ObjectBindingPattern || initializer === undefined || !isThis(initializer))
+                return;
+            return name.elements.map((element) => element.dotDotDotToken !== undefined
+                ? undefined
+                : element.propertyName !== undefined
+                    ? getPropertyName(element.propertyName)
+                    : (<ts.Identifier>element.name).text,
+            );
+        }
+        case ts.SyntaxKind.BinaryExpression: {
+            const {left, operatorToken, right} = <ts.BinaryExpression>node;
+            if (operatorToken.kind !== ts.SyntaxKind.EqualsToken || left.kind !== ts.SyntaxKind.ObjectLiteralExpression || !isThis(right))
+                return;
+            return (<ts.ObjectLiteralExpression>left).properties.map((property) => {
+                switch (property.kind) {
+                    case ts.SyntaxKind.ShorthandPropertyAssignment:
+                        return property.name.text;
+                    case ts.SyntaxKind.PropertyAssignment:
+                        return getPropertyName(property.name);
+                    default:
+                        return; // spread
+                }
+            });
+        }
+        default:
+            return;
+    }
+}
+
+function isThis(node: ts.Expression): boolean {
+    while (node.kind === ts.SyntaxKind.ParenthesizedExpression)
+        node = (<ts.ParenthesizedExpression>node).expression;
+    return node.kind === ts.SyntaxKind.ThisKeyword;
+}
+
+function isRemovableDeclaration(node: ts.Node): boolean {
+    switch (node.kind) {
+        case ts.SyntaxKind.ClassDeclaration:
+            if (!classHasNoSideEffect(<ts.ClassDeclaration>node))
+                return false;
+            // falls through
+        case ts.SyntaxKind.FunctionDeclaration:
+        case ts.SyntaxKind.InterfaceDeclaration:
+        case ts.SyntaxKind.TypeAliasDeclaration:
+            switch (node.parent!.kind) {
+                case ts.SyntaxKind.SourceFile:
+                case ts.SyntaxKind.Block:
+                case ts.SyntaxKind.ModuleBlock:
+                    return true;
+            }
+    }
+    return false;
+}
+
+/** Removes all removable names of an import declaration. Only the first of these names gets the fix, because fixes must not overlap. */
+function getImportRemovalFix(
+    declaration: ts.ImportDeclaration,
+    identifier: ts.Identifier,
+    removable: Set<ts.Identifier>,
+    sourceFile: ts.SourceFile,
+): Lint.Replacement[] | undefined {
+    const clause = declaration.importClause!;
+    const {namedBindings} = clause;
+    const names = [];
+    if (clause.name !== undefined)
+        names.push(clause.name);
+    if (namedBindings !== undefined) {
+        if (namedBindings.kind === ts.SyntaxKind.NamespaceImport) {
+            names.push(namedBindings.name);
+        } else {
+            names.push(...namedBindings.elements.map((element) => element.name));
+        }
+    }
+    const removed = names.filter((name) => removable.has(name));
+    if (removed[0] !== identifier)
+        return;
+    if (removed.length === names.length)
+        return [deleteStatement(declaration, sourceFile)];
+
+    const replacements = [];
+    const namedBindingsRemoved = namedBindings !== undefined && (namedBindings.kind === ts.SyntaxKind.NamespaceImport
+        ? removable.has(namedBindings.name)
+        : namedBindings.elements.every((element) => removable.has(element.name)));
+    if (clause.name !== undefined && removable.has(clause.name)) {
+        // 'import a, {b} from' -> 'import {b} from'
+        replacements.push(Lint.Replacement.deleteFromTo(clause.name.getStart(sourceFile), namedBindings!.getStart(sourceFile)));
+    } else if (namedBindingsRemoved) {
+        // 'import a, {b} from' -> 'import a from'
+        replacements.push(Lint.Replacement.deleteFromTo(clause.name!.end, namedBindings!.end));
+    }
+    if (!namedBindingsRemoved && namedBindings !== undefined && namedBindings.kind === ts.SyntaxKind.NamedImports)
+        replacements.push(...removeListElements(namedBindings.elements, (element) => removable.has(element.name), sourceFile));
+    return replacements;
+}
+
+/**
+ * Removes all removable variables of a declaration list.
+ * Only the first of these variables gets the fix, because fixes must not overlap.
+ */
+function getVariableRemovalFix(
+    declaration: ts.VariableDeclaration,
+    removable: Set<ts.Identifier>,
+    sourceFile: ts.SourceFile,
+): Lint.Replacement[] | undefined {
+    const list = <ts.VariableDeclarationList>declaration.parent;
+    if (list.parent!.kind !== ts.SyntaxKind.VariableStatement)
+        return; // don't touch the initializer of loops
+    const isRemoved = (d: ts.VariableDeclaration) =>
+        d.name.kind === ts.SyntaxKind.Identifier && removable.has(d.name) && initializerHasNoSideEffect(d);
+    const removed = list.declarations.filter(isRemoved);
+    if (removed[0] !== declaration)
+        return;
+    if (removed.length === list.declarations.length)
+        return [deleteStatement(list.parent!, sourceFile)];
+    return removeListElements(list.declarations, isRemoved, sourceFile);
+}
+
+/**
+ * Removes all removable parameters after the last remaining one.
+ * Only the first of these parameters gets the fix, because fixes must not overlap.
+ */
+function getParameterRemovalFix(
+    parameter: ts.ParameterDeclaration,
+    removable: Set<ts.Identifier>,
+    usage: Map<ts.Identifier, VariableInfo>,
+    checker: ts.TypeChecker,
+    sourceFile: ts.SourceFile,
+): Lint.Replacement[] | undefined {
+    const fn = <ts.SignatureDeclaration>parameter.parent;
+    const {parameters} = fn;
+    let remaining = parameters.length;
+    // a default value is evaluated on every call, so a parameter with a side effect in its initializer is kept
+    while (remaining !== 0 && parameters[remaining - 1].name.kind === ts.SyntaxKind.Identifier &&
+           removable.has(<ts.Identifier>parameters[remaining - 1].name) && initializerHasNoSideEffect(parameters[remaining - 1]))
+        --remaining;
+    if (parameters[remaining] !== parameter)
+        return;
+    // 'this' is not passed as argument
+    const count = remaining !== 0 && isThisParameter(parameters[0]) ? remaining - 1 : remaining;
+    if (!canRemoveParameters(fn, count, removable, usage, checker))
+        return;
+    if (remaining !== 0)
+        return [Lint.Replacement.deleteFromTo(parameters[remaining - 1].end, parameters[parameters.length - 1].end)];
+    // 'a => a' has no parentheses that remain after removing the parameter
+    if (fn.kind === ts.SyntaxKind.ArrowFunction && getChildOfKind(fn, ts.SyntaxKind.OpenParenToken, sourceFile) === undefined)
+        return [Lint.Replacement.replaceFromTo(parameter.getStart(sourceFile), parameter.end, '()')];
+    return [Lint.Replacement.deleteFromTo(parameter.getStart(sourceFile), parameters[parameters.length - 1].end)];
+}
+
+/** Parameters can only be removed if the function is never called with more arguments or passed where it's expected to accept them. */
+function canRemoveParameters(
+    fn: ts.SignatureDeclaration,
+    count: number,
+    removable: Set<ts.Identifier>,
+    usage: Map<ts.Identifier, VariableInfo>,
+    checker: ts.TypeChecker,
+): boolean {
+    const names = [];
+    switch (fn.kind) {
+        case ts.SyntaxKind.FunctionDeclaration:
+            if (fn.name === undefined || hasModifier(fn.modifiers, ts.SyntaxKind.ExportKeyword))
+                return false;
+            names.push(fn.name);
+            break;
+        case ts.SyntaxKind.FunctionExpression:
+        case ts.SyntaxKind.ArrowFunction:
+            if (fn.name !== undefined)
+                names.push(fn.name);
+            if (fn.parent!.kind === ts.SyntaxKind.VariableDeclaration && (<ts.VariableDeclaration>fn.parent).initializer === fn &&
+                (<ts.VariableDeclaration>fn.parent).name.kind === ts.SyntaxKind.Identifier) {
+                names.push(<ts.Identifier>(<ts.VariableDeclaration>fn.parent).name);
+            } else if (names.length === 0 || !acceptsArguments(fn, count, checker)) {
+                // the function may be called with more arguments wherever it's passed to without a known signature
+                return false;
+            }
+            break;
+        default:
+            // methods may be called through a base type or implement an interface
+            return false;
+    }
+    return names.every((name) => {
+        const variable = usage.get(name);
+        // an unused function is removed, so its parameters must not be touched
+        return variable !== undefined && !variable.exported && !variable.inGlobalScope && variable.declarations.length === 1 &&
+            !removable.has(name) &&
+            variable.uses.every(
+                (use) => (use.domain & UsageDomain.TypeQuery) === 0 && acceptsArguments(use.location, count, checker),
+            );
+    });
+}
+
+/** Checks whether the function at `node` is only called or expected to be called with up to `count` arguments. */
+function acceptsArguments(node: ts.Expression, count: number, checker: ts.TypeChecker): boolean {
+    while (node.parent!.kind === ts.SyntaxKind.ParenthesizedExpression)
+        node = <ts.Expression>node.parent;
+    const parent = node.parent!;
+    if (isCallExpression(parent) && parent.expression === node)
+        return parent.arguments.length <= count &&
+            parent.arguments.every((argument) => argument.kind !== ts.SyntaxKind.SpreadElement);
+    const type = checker.getContextualType(node);
+    if (type === undefined || isTypeFlagSet(type, ts.TypeFlags.Any | ts.TypeFlags.Unknown))
+        return false;
+    return unionTypeParts(type).every((t) => t.getCallSignatures().every((signature) => signature.parameters.length <= count));
+}
+
+/** Removes elements of a comma separated list including the commas. At least one element must remain. */
+function removeListElements<T extends ts.Node>(
+    elements: ReadonlyArray<T>,
+    isRemoved: (element: T) => boolean,
+    sourceFile: ts.SourceFile,
+): Lint.Replacement[] {
+    const result = [];
+    for (let i = 0; i < elements.length; ++i) {
+        if (!isRemoved(elements[i]))
+            continue;
+        let last = i;
+        while (last + 1 < elements.length && isRemoved(elements[last + 1]))
+            ++last;
+        result.push(
+            last + 1 < elements.length
+                // remove up to the start of the next remaining element: 'a, b, c' -> 'b, c'
+                ? Lint.Replacement.deleteFromTo(elements[i].getStart(sourceFile), elements[last + 1].getStart(sourceFile))
+                // remove from the end of the previous remaining element: 'a, b, c' -> 'a, b'
+                : Lint.Replacement.deleteFromTo(elements[i - 1].end, elements[last].end),
+        );
+        i = last;
+    }
+    return result;
+}
+
+/**
+ * Removes the statements from `first` to `last` including JSDoc and a trailing line comment.
+ * If the statements are the only content of their lines, these lines are removed as well.
+ * Statements surrounded by blank lines leave only one of them.
+ */
+function deleteStatement(first: ts.Node, sourceFile: ts.SourceFile, last = first): Lint.Replacement {
+    const text = sourceFile.text;
+    let start = first.getStart(sourceFile, true);
+    let end = last.end;
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const trailing = /^[ \t]*(?:\/\/.*)?(?:\r?\n|$)/.exec(text.slice(end));
+    if (trailing !== null && /^[ \t]*$/.test(text.slice(lineStart, start))) {
+        start = lineStart;
+        end += trailing[0].length;
+        const previousBlankLine = /\n[ \t]*\r?\n$/.exec(text.slice(0, start));
+        if (previousBlankLine !== null && /^(?:[ \t]*\r?\n|[ \t]*}|$)/.test(text.slice(end)))
+            start -= previousBlankLine[0].length - 1;
+    }
+    return Lint.Replacement.deleteFromTo(start, end);
+}
+
+/**
+ * Returns the names that are implicitly used by the JSX in this file.
+ * Pragma comments take precedence over the rule's options, which take precedence over the compiler options.
+ */
+function getJsxFactories(sourceFile: ts.SourceFile, options: IJsxOptions, compilerOptions: ts.CompilerOptions | undefined): Set<string> {
+    const result = new Set<string>();
+    const pragmas = getJsxPragmas(sourceFile);
+    // the automatic runtime imports its functions itself
+    if (getJsxRuntime(pragmas, options, compilerOptions) === JsxRuntime.Automatic || !containsJsx(sourceFile))
+        return result;
+    result.add(getEntityNameRoot(
+        pragmas.get('jsx') || options.factory || compilerOptions !== undefined && compilerOptions.jsxFactory || 'React.createElement',
+    ));
+    if (containsJsxFragment(sourceFile))
+        result.add(getEntityNameRoot(
+            pragmas.get('jsxFrag') || options['fragment-factory'] ||
+            compilerOptions !== undefined && <string | undefined>compilerOptions.jsxFragmentFactory || 'React.Fragment',
+        ));
+    return result;
+}
+
+function getJsxRuntime(pragmas: Map<string, string>, options: IJsxOptions, compilerOptions: ts.CompilerOptions | undefined): JsxRuntime {
+    const runtime = pragmas.get('jsxRuntime');
+    if (runtime !== undefined)
+        return runtime === JsxRuntime.Automatic ? JsxRuntime.Automatic : JsxRuntime.Classic;
+    if (pragmas.has('jsxImportSource'))
+        return JsxRuntime.Automatic;
+    if (pragmas.has('jsx'))
+        return JsxRuntime.Classic;
+    if (options.runtime !== undefined)
+        return options.runtime;
+    return compilerOptions !== undefined && (compilerOptions.jsx === JSX_EMIT_REACT_JSX || compilerOptions.jsx === JSX_EMIT_REACT_JSX_DEV)
+        ? JsxRuntime.Automatic
+        : JsxRuntime.Classic;
+}
+
+/** Parses pragmas like `@jsx h` in the comments at the start of the file. */
+function getJsxPragmas(sourceFile: ts.SourceFile): Map<string, string> {
+    const result = new Map<string, string>();
+    const {text} = sourceFile;
+    for (const range of ts.getLeadingCommentRanges(text, 0) || []) {
+        const re = /@(jsx|jsxFrag|jsxRuntime|jsxImportSource)\s+([^\s*]+)/g;
+        const comment = text.substring(range.pos, range.end);
+        for (let match = re.exec(comment); match !== null; match = re.exec(comment))
+            if (!result.has(match[1]))
+                result.set(match[1], match[2]);
+    }
+    return result;
+}
+
+function getEntityNameRoot(name: string): string {
+    const end = name.indexOf('.');
+    return end === -1 ? name : name.substr(0, end);
+}
+
+function containsJsxFragment(node: ts.Node): boolean | undefined {
+    return node.kind === ts.SyntaxKind.JsxFragment || ts.forEachChild(node, containsJsxFragment);
+}
+
 function containsJsx(node: ts.Node): boolean | undefined {
     switch (node.kind) {
         case ts.SyntaxKind.JsxElement:
@@ -96,6 +1034,268 @@ function containsJsx(node: ts.Node): boolean | undefined {
     }
 }
 
+function isLocalDeclaration(variable: VariableInfo): boolean {
+    return variable.declarations.every((declaration) => {
+        switch (declaration.parent!.kind) {
+            case ts.SyntaxKind.FunctionDeclaration:
+            case ts.SyntaxKind.ClassDeclaration:
+            case ts.SyntaxKind.VariableDeclaration:
+                return true;
+            default:
+                return false;
+        }
+    });
+}
+
+/** Uses inside of a declaration are only executed if the declaration is used, unless evaluating the declaration has side effects. */
+function isDeclarationWithoutSideEffect(node: ts.Node): boolean {
+    switch (node.kind) {
+        case ts.SyntaxKind.FunctionDeclaration:
+            return true;
+        case ts.SyntaxKind.ClassDeclaration:
+            return classHasNoSideEffect(<ts.ClassDeclaration>node);
+        case ts.SyntaxKind.VariableDeclaration:
+            return node.parent!.parent!.kind === ts.SyntaxKind.VariableStatement &&
+                initializerHasNoSideEffect(<ts.VariableDeclaration>node);
+        default:
+            return false;
+    }
+}
+
+/** Evaluating a class runs decorators, the `extends` expression, computed member names and initializers of static properties. */
+function classHasNoSideEffect(node: ts.ClassLikeDeclaration): boolean {
+    if (node.decorators !== undefined)
+        return false;
+    if (node.heritageClauses !== undefined)
+        for (const clause of node.heritageClauses)
+            if (clause.token === ts.SyntaxKind.ExtendsKeyword &&
+                clause.types.some((type) => type.expression.kind !== ts.SyntaxKind.Identifier))
+                return false;
+    return node.members.every((member) => {
+        if (member.decorators !== undefined ||
+            member.name !== undefined && member.name.kind === ts.SyntaxKind.ComputedPropertyName ||
+            member.kind === ts.SyntaxKind.PropertyDeclaration && (<ts.PropertyDeclaration>member).initializer !== undefined &&
+            hasModifier(member.modifiers, ts.SyntaxKind.StaticKeyword))
+            return false;
+        return !isFunctionWithBody(member) || member.parameters.every((parameter) => parameter.decorators === undefined);
+    });
+}
+
+/**
+ * Finds the local declarations that cannot be reached from anything but other declarations that are never executed.
+ * Returns these declarations together with the declarations containing their uses.
+ */
+function findUnreachable(
+    candidates: Map<ts.Identifier, VariableUse[]>,
+    unused: Set<ts.Identifier>,
+    usage: Map<ts.Identifier, VariableInfo>,
+): Map<ts.Identifier, ts.Identifier[]> {
+    const containers = new Map<ts.Node, ts.Identifier>();
+    const addContainer = (identifier: ts.Identifier) => {
+        for (const declaration of usage.get(identifier)!.declarations)
+            if (isDeclarationWithoutSideEffect(declaration.parent!))
+                containers.set(declaration.parent!, identifier);
+    };
+    candidates.forEach((_uses, identifier) => addContainer(identifier));
+    unused.forEach(addContainer);
+
+    const users = new Map<ts.Identifier, ts.Identifier[]>();
+    const dependencies = new Map<ts.Identifier, ts.Identifier[]>();
+    const reachable: ts.Identifier[] = [];
+    candidates.forEach((uses, identifier) => {
+        const containing: ts.Identifier[] = [];
+        for (const use of uses) {
+            const container = findContainer(use.location, containers);
+            if (container === undefined)
+                return reachable.push(identifier);
+            containing.push(container);
+        }
+        users.set(identifier, containing);
+        for (const container of containing) {
+            const dependency = dependencies.get(container);
+            if (dependency === undefined) {
+                dependencies.set(container, [identifier]);
+            } else {
+                dependency.push(identifier);
+            }
+        }
+    });
+    const seen = new Set(reachable);
+    // 'reachable' grows while iterating
+    for (const container of reachable) {
+        const dependency = dependencies.get(container);
+        if (dependency === undefined)
+            continue;
+        for (const identifier of dependency) {
+            if (!seen.has(identifier)) {
+                seen.add(identifier);
+                reachable.push(identifier);
+            }
+        }
+    }
+    for (const identifier of reachable)
+        users.delete(identifier);
+    return users;
+}
+
+function findContainer(node: ts.Node, containers: Map<ts.Node, ts.Identifier>): ts.Identifier | undefined {
+    for (let parent = node.parent; parent !== undefined; parent = parent.parent) {
+        const container = containers.get(parent);
+        if (container !== undefined)
+            return container;
+    }
+    return;
+}
+
+/** Unreachable declarations can only be removed if all declarations using them are removed, too. */
+function getRemovableUnreachable(
+    unreachable: Map<ts.Identifier, ts.Identifier[]>,
+    removable: Set<ts.Identifier>,
+    usage: Map<ts.Identifier, VariableInfo>,
+): Set<ts.Identifier> {
+    const result = new Set<ts.Identifier>();
+    unreachable.forEach((_users, identifier) => {
+        const variable = usage.get(identifier)!;
+        const {declarations} = variable;
+        // assignments outside of the declaration would remain
+        if (filterWriteOnly(variable.uses, identifier).length !== variable.uses.length)
+            return;
+        if (declarations.every((declaration) => isRemovableDeclaration(declaration.parent!)) ||
+            declarations.length === 1 && isDeclarationWithoutSideEffect(declarations[0].parent!))
+            result.add(identifier);
+    });
+    let changed = true;
+    while (changed) {
+        changed = false;
+        result.forEach((identifier) => {
+            if (!unreachable.get(identifier)!.every((user) => removable.has(user) || result.has(user))) {
+                result.delete(identifier);
+                changed = true;
+            }
+        });
+    }
+    return result;
+}
+
+interface IDeadStore {
+    name: ts.Identifier;
+    /** The statement overwriting the value. `undefined` if the variable goes out of scope. */
+    end: ts.Statement | undefined;
+}
+
+/**
+ * Finds values assigned by variable initializers or assignment statements that are overwritten
+ * or go out of scope on every path before they are read.
+ */
+function findDeadStores(identifier: ts.Identifier, variable: VariableInfo): IDeadStore[] {
+    const declaration = identifier.parent!;
+    if (variable.declarations.length !== 1 ||
+        declaration.kind !== ts.SyntaxKind.VariableDeclaration && declaration.kind !== ts.SyntaxKind.Parameter &&
+        declaration.kind !== ts.SyntaxKind.BindingElement)
+        return [];
+    const functionScope = getFunctionScope(identifier);
+    const reads: ts.Identifier[] = [];
+    const stores = new Map<ts.Statement, ts.Identifier>();
+    if (isVariableStatementDeclaration(declaration) && declaration.initializer !== undefined)
+        stores.set(<ts.VariableStatement>declaration.parent!.parent, identifier);
+    for (const use of variable.uses) {
+        if ((use.domain & UsageDomain.Value) === 0)
+            continue;
+        if (getFunctionScope(use.location) !== functionScope)
+            return []; // a closure could read the value at any time
+        const target = getAssignmentOfTarget(use.location);
+        if (target === undefined) {
+            reads.push(use.location);
+        } else if (target.parent!.kind === ts.SyntaxKind.ExpressionStatement) {
+            stores.set(<ts.ExpressionStatement>target.parent, use.location);
+        }
+    }
+    const blockScope = isVariableStatementDeclaration(declaration) && declaration.parent!.flags & ts.NodeFlags.BlockScoped
+        ? declaration.parent!.parent!.parent
+        : undefined;
+    const result: IDeadStore[] = [];
+    stores.forEach((name, statement) => {
+        const end = findEndOfStore(statement, reads, stores, blockScope);
+        if (end !== false)
+            result.push({name, end});
+    });
+    return result;
+}
+
+function isVariableStatementDeclaration(node: ts.Node): node is ts.VariableDeclaration {
+    return node.kind === ts.SyntaxKind.VariableDeclaration && node.parent!.parent!.kind === ts.SyntaxKind.VariableStatement;
+}
+
+function getFunctionScope(node: ts.Node): ts.Node | undefined {
+    let parent = node.parent;
+    while (parent !== undefined && !isFunctionScopeBoundary(parent))
+        parent = parent.parent;
+    return parent;
+}
+
+/** Returns the assignment if `node` is only written by a simple assignment. */
+function getAssignmentOfTarget(node: ts.Expression): ts.BinaryExpression | undefined {
+    while (node.parent!.kind === ts.SyntaxKind.ParenthesizedExpression)
+        node = <ts.Expression>node.parent;
+    const parent = node.parent!;
+    return parent.kind === ts.SyntaxKind.BinaryExpression && (<ts.BinaryExpression>parent).left === node &&
+        (<ts.BinaryExpression>parent).operatorToken.kind === ts.SyntaxKind.EqualsToken
+        ? <ts.BinaryExpression>parent
+        : undefined;
+}
+
+/**
+ * Follows the statements after `store` until the stored value is read, overwritten or goes out of scope.
+ * Returns `false` if the value may be read, the overwriting statement or `undefined` if it goes out of scope.
+ */
+function findEndOfStore(
+    store: ts.Statement,
+    reads: ts.Identifier[],
+    stores: Map<ts.Statement, ts.Identifier>,
+    blockScope: ts.Node | undefined,
+): ts.Statement | undefined | false {
+    const isRead = (node: ts.Node) => reads.some((read) => read.pos >= node.pos && read.end <= node.end);
+    // a later declaration in the same statement may read the value
+    if (store.kind === ts.SyntaxKind.VariableStatement && isRead(store))
+        return false;
+    // every statement could throw an exception and the value could be read in 'catch' or 'finally'
+    for (let node = store.parent!; !isFunctionScopeBoundary(node) && node.kind !== ts.SyntaxKind.SourceFile; node = node.parent!)
+        if (node.kind === ts.SyntaxKind.TryStatement)
+            return false;
+    let statement = store;
+    while (true) {
+        const parent = statement.parent!;
+        switch (parent.kind) {
+            case ts.SyntaxKind.IfStatement:
+            case ts.SyntaxKind.LabeledStatement:
+                statement = <ts.Statement>parent;
+                continue;
+            case ts.SyntaxKind.SourceFile:
+            case ts.SyntaxKind.Block:
+                break;
+            default:
+                // loops may read the value in the next iteration, exceptions may be caught and switch cases may fall through
+                return false;
+        }
+        const {statements} = <ts.BlockLike>parent;
+        for (let i = statements.indexOf(statement) + 1; i < statements.length; ++i) {
+            const next = statements[i];
+            if (isRead(next))
+                return false;
+            if (stores.has(next))
+                return next;
+            const end = getControlFlowEnd(next);
+            if (end.statements.some((s) => s.kind === ts.SyntaxKind.BreakStatement || s.kind === ts.SyntaxKind.ContinueStatement))
+                return false;
+            if (end.end)
+                return; // returns or throws on every path
+        }
+        if (parent === blockScope || parent.kind === ts.SyntaxKind.SourceFile || isFunctionScopeBoundary(parent.parent!))
+            return;
+        statement = <ts.Block>parent;
+    }
+}
+
 function filterUsesInDeclaration(uses: VariableUse[], declarations: ts.Identifier[]): VariableUse[] {
     const result = [];
     outer: for (const use of uses) {
@@ -112,7 +1312,8 @@ function filterUsesInDeclaration(uses: VariableUse[], declarations: ts.Identifie
     return result;
 }
 
-function initializerHasNoSideEffect(declaration: ts.VariableDeclaration, use: ts.Identifier): boolean {
+/** Checks if the initializer has side effects before `use` is evaluated. Checks the whole initializer if `use` is not given. */
+function initializerHasNoSideEffect(declaration: ts.VariableDeclaration | ts.ParameterDeclaration, use?: ts.Identifier): boolean {
     if (declaration.initializer === undefined)
         return true;
     const enum Result {
@@ -120,18 +1321,38 @@ function initializerHasNoSideEffect(declaration: ts.VariableDeclaration, use: ts
         NoSideEffect = 2,
     }
     return (function cb(node): Result | undefined {
-        if (node.pos > use.pos)
-            return Result.NoSideEffect;
-        if (node.end <= use.pos)
-            return;
+        if (use !== undefined) {
+            if (node.pos > use.pos)
+                return Result.NoSideEffect;
+            if (node.end <= use.pos)
+                return;
+        }
         switch (node.kind) {
             case ts.SyntaxKind.CallExpression:
             case ts.SyntaxKind.NewExpression:
             case ts.SyntaxKind.TaggedTemplateExpression:
+            case ts.SyntaxKind.AwaitExpression:
+            case ts.SyntaxKind.YieldExpression:
+            case ts.SyntaxKind.DeleteExpression:
                 return Result.HasSideEffect;
+            case ts.SyntaxKind.PrefixUnaryExpression:
+            case ts.SyntaxKind.PostfixUnaryExpression:
+                if ((<ts.PrefixUnaryExpression | ts.PostfixUnaryExpression>node).operator === ts.SyntaxKind.PlusPlusToken ||
+                    (<ts.PrefixUnaryExpression | ts.PostfixUnaryExpression>node).operator === ts.SyntaxKind.MinusMinusToken)
+                    return Result.HasSideEffect;
+                break;
+            case ts.SyntaxKind.BinaryExpression:
+                if (isAssignmentKind((<ts.BinaryExpression>node).operatorToken.kind))
+                    return Result.HasSideEffect;
+                break;
+            case ts.SyntaxKind.GetAccessor:
+            case ts.SyntaxKind.SetAccessor:
+                // accessing the property runs the accessor
+                return Result.HasSideEffect;
+            case ts.SyntaxKind.ClassExpression:
+                return classHasNoSideEffect(<ts.ClassExpression>node) ? Result.NoSideEffect : Result.HasSideEffect;
             case ts.SyntaxKind.ArrowFunction:
             case ts.SyntaxKind.FunctionExpression:
-            case ts.SyntaxKind.ClassExpression:
                 return Result.NoSideEffect;
         }
         return ts.forEachChild(node, cb);
@@ -142,13 +1363,14 @@ function filterWriteOnly(uses: VariableUse[], identifier: ts.Identifier): Variab
     const result = [];
     for (const use of uses)
         if (use.domain & (UsageDomain.Type | UsageDomain.TypeQuery) ||
-            isExpressionValueUsed(use.location) && !isUpdate(use.location, identifier))
+            isExpressionValueUsed(use.location) &&
+            !isUpdate(use.location, (target) => isIdentifier(target) && target.text === identifier.text))
             result.push(use);
     return result;
 }
 
 // handle foo = foo + 1;
-function isUpdate(use: ts.Expression, identifier: ts.Identifier): boolean {
+function isUpdate(use: ts.Expression, isSameReference: (target: ts.Expression) => boolean): boolean {
     while (true) {
         const parent = use.parent!;
         switch (parent.kind) {
@@ -173,9 +1395,7 @@ function isUpdate(use: ts.Expression, identifier: ts.Identifier): boolean {
                 break;
             case ts.SyntaxKind.BinaryExpression:
                 if (isAssignmentKind((<ts.BinaryExpression>parent).operatorToken.kind))
-                    return (<ts.BinaryExpression>parent).right === use &&
-                        (<ts.BinaryExpression>parent).left.kind === ts.SyntaxKind.Identifier &&
-                        (<ts.Identifier>(<ts.BinaryExpression>parent).left).text === identifier.text;
+                    return (<ts.BinaryExpression>parent).right === use && isSameReference((<ts.BinaryExpression>parent).left);
                 use = <ts.Expression>parent;
                 break;
             default:
@@ -189,26 +1409,12 @@ function isExcluded(variable: VariableInfo, sourceFile: ts.SourceFile, usage: Ma
         return true;
     for (const declaration of variable.declarations) {
         const parent = declaration.parent!;
-        if (declaration.text.startsWith('_')) {
-            switch (parent.kind) {
-                case ts.SyntaxKind.Parameter:
-                    return true;
-                case ts.SyntaxKind.VariableDeclaration:
-                    if (parent.parent!.parent!.kind === ts.SyntaxKind.ForInStatement ||
-                        parent.parent!.parent!.kind === ts.SyntaxKind.ForOfStatement)
-                        return true;
-                    break;
-                case ts.SyntaxKind.BindingElement:
-                    if ((<ts.BindingElement>parent).dotDotDotToken !== undefined)
-                        break;
-                    const pattern = <ts.BindingPattern>parent.parent;
-                    if (pattern.kind === ts.SyntaxKind.ObjectBindingPattern &&
-                        pattern.elements[pattern.elements.length - 1].dotDotDotToken !== undefined)
-                        return true;
-            }
-        }
+        const ignorePattern = getIgnorePattern(declaration, opts.ignorePattern);
+        if (ignorePattern !== undefined && ignorePattern.test(declaration.text))
+            return true;
         if (isParameterDeclaration(parent) &&
-                (opts.ignoreParameters || isParameterProperty(parent) || !isFunctionWithBody(parent.parent!)) ||
+                (opts.checkParameters === CheckParameters.None || isParameterProperty(parent) || !isFunctionWithBody(parent.parent!) ||
+                 opts.checkParameters === CheckParameters.AfterUsed && isFollowedByUsedParameter(parent, usage)) ||
             !opts.catchBinding && parent.kind === ts.SyntaxKind.VariableDeclaration && parent.parent!.kind === ts.SyntaxKind.CatchClause ||
             parent.kind === ts.SyntaxKind.TypeParameter && parent.parent!.kind === ts.SyntaxKind.MappedType ||
             parent.kind === ts.SyntaxKind.TypeParameter && typeParameterMayBeRequired(<ts.TypeParameterDeclaration>parent, usage))
@@ -220,6 +1426,46 @@ function isExcluded(variable: VariableInfo, sourceFile: ts.SourceFile, usage: Ma
     return false;
 }
 
+function isFollowedByUsedParameter(parameter: ts.ParameterDeclaration, usage: Map<ts.Identifier, VariableInfo>): boolean {
+    const {parameters} = <ts.SignatureDeclaration>parameter.parent;
+    for (let i = parameters.indexOf(parameter) + 1; i < parameters.length; ++i) {
+        const {name} = parameters[i];
+        if (name.kind !== ts.SyntaxKind.Identifier || isParameterProperty(parameters[i]))
+            return true;
+        const variable = usage.get(name);
+        if (variable === undefined || variable.uses.length !== 0)
+            return true;
+    }
+    return false;
+}
+
+/** Returns the pattern of names that are ignored at the location of `declaration`. */
+function getIgnorePattern(declaration: ts.Identifier, patterns: IIgnorePatterns): RegExp | undefined {
+    const parent = declaration.parent!;
+    switch (parent.kind) {
+        case ts.SyntaxKind.Parameter:
+            return patterns.parameters;
+        case ts.SyntaxKind.VariableDeclaration:
+            switch (parent.parent!.kind) {
+                case ts.SyntaxKind.CatchClause:
+                    return patterns.caughtErrors;
+                case ts.SyntaxKind.VariableDeclarationList:
+                    if (parent.parent!.parent!.kind === ts.SyntaxKind.ForInStatement ||
+                        parent.parent!.parent!.kind === ts.SyntaxKind.ForOfStatement)
+                        return patterns.variables;
+            }
+            return;
+        case ts.SyntaxKind.BindingElement:
+            if ((<ts.BindingElement>parent).dotDotDotToken !== undefined)
+                return;
+            const pattern = <ts.BindingPattern>parent.parent;
+            if (pattern.kind === ts.SyntaxKind.ObjectBindingPattern &&
+                pattern.elements[pattern.elements.length - 1].dotDotDotToken !== undefined)
+                return patterns.variables;
+    }
+    return;
+}
+
 function isImportFromExternal(node: ts.Identifier) {
     switch (node.parent!.kind) {
         case ts.SyntaxKind.ImportEqualsDeclaration:
@@ -0,0 +1,5 @@
+import { wrapTslintRule } from '@fimbul/bifrost';
+import { Rule } from '../noUnusedDisableRule';
+
+const rule = wrapTslintRule(Rule);
+export {rule as Rule};
@@ -0,0 +1,152 @@
+import * as ts from 'typescript';
+import { hasModifier, isObjectType, isThisParameter, isTypeReference, isUnionOrIntersectionType } from 'tsutils';
+
+export const formatFlags = ts.TypeFormatFlags.UseStructuralFallback
+    | ts.TypeFormatFlags.UseFullyQualifiedType
+    | ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
+    | ts.TypeFormatFlags.NoTruncation
+    | ts.TypeFormatFlags.WriteClassExpressionAsTypeLiteral
+    | ts.TypeFormatFlags.WriteArrowStyleSignature;
+
+// TypeScript stores internal information in the flags of a type, only the public flags describe what kind of type it is
+const TYPE_KIND_FLAGS = ts.TypeFlags.NonPrimitive * 2 - 1;
+
+const PROPERTY_FLAGS = ts.SymbolFlags.Optional | ts.SymbolFlags.Method;
+
+/**
+ * Checks if two types are identical, so that one can replace the other without any effect on type checking.
+ * The identity relation of the TypeChecker is not part of the public API, therefore the types are compared structurally:
+ * Unions and intersections regardless of the order of their constituents, literal types regardless of their freshness,
+ * instantiations of the same generic type by their type arguments and anonymous object types by their members.
+ * Classes, interfaces and enums are only identical to themselves, because their name is part of the information an annotation provides.
+ * @param location Any node of the program. It's only used to look up the declared types of properties and parameters.
+ */
+export function isTypeIdenticalTo(checker: ts.TypeChecker, a: ts.Type, b: ts.Type, location: ts.Node): boolean {
+    // pairs of object types that are currently compared, recursive types are assumed to be identical
+    const assumed: Array<[ts.Type, ts.Type]> = [];
+    return identical(a, b);
+
+    function identical(source: ts.Type, target: ts.Type): boolean {
+        if (source === target)
+            return true;
+        if ((source.flags & TYPE_KIND_FLAGS) !== (target.flags & TYPE_KIND_FLAGS))
+            return false;
+        if (isUnionOrIntersectionType(source))
+            return source.types.length === (<ts.UnionOrIntersectionType>target).types.length &&
+                source.types.every((s) => (<ts.UnionOrIntersectionType>target).types.some((t) => identical(s, t)));
+        if (source.flags & ts.TypeFlags.EnumLiteral)
+            return source.symbol === target.symbol; // fresh and regular type of the same enum member
+        if (source.flags & (ts.TypeFlags.Literal | ts.TypeFlags.Index | ts.TypeFlags.IndexedAccess | ts.TypeFlags.Conditional))
+            return typeToString(source) === typeToString(target);
+        if (source.flags & ts.TypeFlags.Any)
+            return true; // there are different instances of 'any', e.g. the type of unresolved names
+        return isObjectType(source) && objectTypesAreIdentical(source, <ts.ObjectType>target);
+    }
+
+    function objectTypesAreIdentical(source: ts.ObjectType, target: ts.ObjectType): boolean {
+        if (isTypeReference(source) && isTypeReference(target) && source.target === target.target)
+            return typeListsAreIdentical(source.typeArguments, target.typeArguments);
+        const objectFlags = source.objectFlags | target.objectFlags;
+        if (objectFlags & ts.ObjectFlags.Mapped)
+            return typeToString(source) === typeToString(target);
+        // different generic types, different instantiations or different declarations of classes and interfaces
+        if (objectFlags & (ts.ObjectFlags.ClassOrInterface | ts.ObjectFlags.Reference))
+            return false;
+        for (const [s, t] of assumed)
+            if (s === source && t === target)
+                return true;
+        assumed.push([source, target]);
+        const result = propertiesAreIdentical(source, target) &&
+            signaturesAreIdentical(source, target, ts.SignatureKind.Call) &&
+            signaturesAreIdentical(source, target, ts.SignatureKind.Construct) &&
+            indexInfosAreIdentical(source, target, ts.IndexKind.String) &&
+            indexInfosAreIdentical(source, target, ts.IndexKind.Number);
+        assumed.pop();
+        return result;
+    }
+
+    function typeListsAreIdentical(source: ReadonlyArray<ts.Type> = [], target: ReadonlyArray<ts.Type> = []): boolean {
+        return source.length === target.length && source.every((s, i) => identical(s, target[i]));
+    }
+
+    function propertiesAreIdentical(source: ts.Type, target: ts.Type): boolean {
+        const sourceProperties = checker.getPropertiesOfType(source);
+        const targetProperties = checker.getPropertiesOfType(target);
+        if (sourceProperties.length !== targetProperties.length)
+            return false;
+        for (const sourceProperty of sourceProperties) {
+            const targetProperty = targetProperties.find((p) => p.escapedName === sourceProperty.escapedName);
+            if (targetProperty === undefined ||
+                // methods are checked bivariantly, even with 'strictFunctionTypes'
+                (sourceProperty.flags & PROPERTY_FLAGS) !== (targetProperty.flags & PROPERTY_FLAGS) ||
+                isReadonlyProperty(sourceProperty) !== isReadonlyProperty(targetProperty) ||
+                !identical(
+                    checker.getTypeOfSymbolAtLocation(sourceProperty, location),
+                    checker.getTypeOfSymbolAtLocation(targetProperty, location),
+                ))
+                return false;
+        }
+        return true;
+    }
+
+    function signaturesAreIdentical(source: ts.Type, target: ts.Type, kind: ts.SignatureKind): boolean {
+        const sourceSignatures = checker.getSignaturesOfType(source, kind);
+        const targetSignatures = checker.getSignaturesOfType(target, kind);
+        return sourceSignatures.length === targetSignatures.length &&
+            sourceSignatures.every((s, i) => signatureIsIdentical(s, targetSignatures[i]));
+    }
+
+    function signatureIsIdentical(source: ts.Signature, target: ts.Signature): boolean {
+        // type parameters of different signatures are never the same type, fall back to comparing the text
+        // 'this' parameters and type predicates are not accessible through the public API
+        if (source.typeParameters !== undefined || target.typeParameters !== undefined ||
+            hasThisParameterOrTypePredicate(source) || hasThisParameterOrTypePredicate(target))
+            return checker.signatureToString(source, undefined, formatFlags) === checker.signatureToString(target, undefined, formatFlags);
+        return source.parameters.length === target.parameters.length &&
+            source.parameters.every((s, i) => {
+                const t = target.parameters[i];
+                return getParameterKind(s) === getParameterKind(t) &&
+                    identical(checker.getTypeOfSymbolAtLocation(s, location), checker.getTypeOfSymbolAtLocation(t, location));
+            }) &&
+            identical(source.getReturnType(), target.getReturnType());
+    }
+
+    function getParameterKind(parameter: ts.Symbol): 'rest' | 'optional' | 'required' {
+        const declaration = parameter.valueDeclaration;
+        if (declaration === undefined || declaration.kind !== ts.SyntaxKind.Parameter)
+            return 'required';
+        if ((<ts.ParameterDeclaration>declaration).dotDotDotToken !== undefined)
+            return 'rest';
+        return checker.isOptionalParameter(<ts.ParameterDeclaration>declaration) ? 'optional' : 'required';
+    }
+
+    function indexInfosAreIdentical(source: ts.Type, target: ts.Type, kind: ts.IndexKind): boolean {
+        const sourceInfo = checker.getIndexInfoOfType(source, kind);
+        const targetInfo = checker.getIndexInfoOfType(target, kind);
+        if (sourceInfo === undefined || targetInfo === undefined)
+            return sourceInfo === targetInfo;
+        return sourceInfo.isReadonly === targetInfo.isReadonly && identical(sourceInfo.type, targetInfo.type);
+    }
+
+    function typeToString(type: ts.Type) {
+        return checker.typeToString(type, undefined, formatFlags);
+    }
+}
+
+function isReadonlyProperty(symbol: ts.Symbol): boolean {
+    if (symbol.flags & ts.SymbolFlags.GetAccessor && (symbol.flags & ts.SymbolFlags.SetAccessor) === 0)
+        return true;
+    return symbol.declarations !== undefined && symbol.declarations.some((d) => hasModifier(d.modifiers, ts.SyntaxKind.ReadonlyKeyword));
+}
+
+export function hasThisParameter(signature: ts.Signature): boolean {
+    const declaration = <ts.SignatureDeclaration | ts.JSDocSignature | undefined>signature.declaration;
+    return declaration !== undefined && declaration.kind !== ts.SyntaxKind.JSDocSignature &&
+        declaration.parameters.length !== 0 && isThisParameter(declaration.parameters[0]);
+}
+
+function hasThisParameterOrTypePredicate(signature: ts.Signature): boolean {
+    const declaration = <ts.SignatureDeclaration | ts.JSDocSignature | undefined>signature.declaration;
+    return declaration !== undefined && declaration.kind !== ts.SyntaxKind.JSDocSignature &&
+        (declaration.type !== undefined && declaration.type.kind === ts.SyntaxKind.TypePredicate || hasThisParameter(signature));
+}
@@ -11,3 +11,29 @@ export function isElseIf(node: ts.IfStatement): node is ts.IfStatement & { paren
     return utils.isIfStatement(parent) &&
          parent.elseStatement === node;
 }
+
+/** Converts a glob pattern to a regular expression. Supports `**` for any number of directories, `*` and `?`. */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; ++i) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                ++i;
+                if (glob[i + 1] === '/') {
+                    ++i;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
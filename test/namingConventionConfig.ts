@@ -0,0 +1,44 @@
+import { Rule } from '../rules/namingConventionRule';
+
+// configuration errors cannot be tested with 'tslint --test', because they abort linting
+function load(...ruleArguments: any[]) {
+    return new Rule({ruleArguments, ruleName: 'naming-convention', ruleSeverity: 'error', disabledIntervals: []});
+}
+
+function assertInvalid(config: object, message: string) {
+    const expected = `Invalid configuration for rule 'naming-convention' at index 1: ${message}`;
+    try {
+        load({type: 'default', format: 'camelCase'}, config);
+    } catch (e) {
+        if ((<Error>e).message !== expected)
+            throw new Error(`Expected error '${expected}', got '${(<Error>e).message}'`);
+        return;
+    }
+    throw new Error(`Expected error '${expected}' for ${JSON.stringify(config)}`);
+}
+
+load(
+    {type: 'default', format: 'camelCase', leadingUnderscore: 'forbid', prefix: false, regex: '', minLength: 0},
+    {type: 'variable', modifiers: ['const', 'export'], format: ['camelCase', 'UPPER_CASE'], final: true},
+    {type: 'variable', modifiers: 'import', format: 'PascalCase'}, // deprecated modifier is still accepted
+    {type: 'type', filter: '^I', types: 'Foo', acronyms: ['ID'], acronymPolicy: 'upper', maxLength: 20},
+    {type: 'import', matchExport: true, explain: false, forbiddenNames: ['foo'], forbiddenWords: []},
+);
+
+assertInvalid(<any>'variable', 'expected an object');
+assertInvalid({type: 'varible'}, "unknown type 'varible'");
+assertInvalid({type: 'variable', formt: 'camelCase'}, "unknown option 'formt'");
+assertInvalid({type: 'variable', modifiers: ['const', 'exported']}, "unknown modifier 'exported'");
+assertInvalid({type: 'variable', modifiers: 1}, "'modifiers' must be a string or an array of strings");
+assertInvalid({type: 'variable', final: 'yes'}, "'final' must be a boolean");
+assertInvalid({type: 'variable', filter: 1}, "'filter' must be a string");
+assertInvalid({type: 'variable', filter: '('}, "invalid filter '(': Invalid regular expression: /(/: Unterminated group");
+assertInvalid({type: 'variable', types: [1]}, "'types' must be a string or an array of strings");
+assertInvalid({type: 'variable', format: 'kamelCase'}, "unknown format 'kamelCase'");
+assertInvalid({type: 'variable', prefix: 5}, "'prefix' must be a string or an array of strings");
+assertInvalid({type: 'variable', regex: true}, "'regex' must be a string");
+assertInvalid({type: 'variable', leadingUnderscore: 'disallow'}, "unknown option 'disallow' for 'leadingUnderscore'");
+assertInvalid({type: 'variable', acronyms: 'ID'}, "'acronyms' must be an array of strings");
+assertInvalid({type: 'variable', acronymPolicy: 'lower'}, "unknown acronym policy 'lower'");
+assertInvalid({type: 'variable', minLength: 1.5}, "'minLength' must be a non-negative integer");
+assertInvalid({type: 'variable', maxLength: '3'}, "'maxLength' must be a non-negative integer");
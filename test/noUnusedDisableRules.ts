@@ -0,0 +1,12 @@
+import * as ts from 'typescript';
+import { RULES } from '../rules/noUnusedDisableRule';
+
+// 'no-unused-disable' needs to know all rules of this package to check comments disabling them
+const missing = ts.sys.readDirectory('rules', ['.ts'], undefined, undefined, 1)
+    .map((fileName) => /(\w+)Rule\.ts$/.exec(fileName))
+    .filter((match): match is RegExpExecArray => match !== null) // tslint:disable-line:no-null-keyword
+    .map((match) => match[1].replace(/[A-Z]/g, (c) => '-' + c.toLowerCase()))
+    .filter((name) => name !== 'no-unused-disable' && !RULES.has(name));
+
+if (missing.length !== 0)
+    throw new Error(`Rules missing in 'rules/noUnusedDisableRule.ts': ${missing.join(', ')}`);
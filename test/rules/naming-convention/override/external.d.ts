@@ -0,0 +1,8 @@
+// tslint:disable:naming-convention these names are defined outside of the tested file
+export interface ResponseHandler {
+    response_type: string;
+    handle_response(): void;
+}
+export class Base {
+    protected base_prop: number;
+}
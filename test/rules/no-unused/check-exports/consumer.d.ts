@@ -0,0 +1,7 @@
+// imports the linted files, this is not a test file
+import used, {usedFunction, UsedInterface} from './test';
+import {usedThroughBarrel} from './barrel';
+import * as namespace from './namespace';
+import './entry';
+
+export const value: [typeof used, typeof usedFunction, UsedInterface, typeof usedThroughBarrel, typeof namespace];
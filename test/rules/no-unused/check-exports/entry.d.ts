@@ -0,0 +1 @@
+export {exportedByEntryPoint} from './test';